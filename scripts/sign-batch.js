@@ -0,0 +1,252 @@
+#!/usr/bin/env node
+// scripts/sign-batch.js
+// sign_config.json（Alt+Shift+S で書出）を一括で再計算する CLI。
+// UI と同じ計算エンジン（src/engine → engine-dist）を使う。
+//
+// 使い方：
+//   npm run sign-batch -- <config.json | フォルダ>... [--json summary.json] [--csv summary.csv] [--roundtrip]
+//   --roundtrip: 書出→読込の往復で計算入力・結果が変わらないことも検証する
+// 終了コード：全件 OK=0 / NG あり=1 / 読込エラーあり=2
+
+const fs = require("fs");
+const path = require("path");
+const {
+  calculateSign,
+  configRoundTripDiff,
+  formatConfigIssues,
+  parseSignConfig,
+  signInputFromConfig,
+} = require("../engine-dist");
+
+function usage() {
+  console.log(
+    "usage: sign-batch <config.json | dir>... [--json out.json] [--csv out.csv] [--roundtrip]"
+  );
+}
+
+function parseArgs(argv) {
+  const opts = { inputs: [], json: "", csv: "", roundtrip: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--json") opts.json = argv[++i] || "";
+    else if (a === "--csv") opts.csv = argv[++i] || "";
+    else if (a === "--roundtrip") opts.roundtrip = true;
+    else if (a === "-h" || a === "--help") opts.help = true;
+    else opts.inputs.push(a);
+  }
+  return opts;
+}
+
+// フォルダは再帰的に *.json を拾う
+// 出力先（--json/--csv）は除外：走査フォルダ内に書いても次回の入力にならない
+function collectFiles(inputs, outputs = []) {
+  const skip = new Set(outputs.filter(Boolean).map((p) => path.resolve(p)));
+  const files = [];
+  const walk = (p) => {
+    if (skip.has(path.resolve(p))) return;
+    const st = fs.statSync(p);
+    if (st.isDirectory()) {
+      for (const name of fs.readdirSync(p).sort()) walk(path.join(p, name));
+    } else if (p.toLowerCase().endsWith(".json")) {
+      files.push(p);
+    }
+  };
+  for (const p of inputs) walk(p);
+  return files;
+}
+
+function checkFile(file, roundtrip) {
+  const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  const { config, issues, fromVersion } = parseSignConfig(raw);
+  const input = signInputFromConfig(config, issues);
+  if (roundtrip) {
+    const diff = configRoundTripDiff(input);
+    if (diff.length > 0) throw new Error(`往復で不一致: ${diff.join(", ")}`);
+  }
+  const res = calculateSign(input);
+  const fnd = res.foundation;
+  const defl = res.deflection; // 自立のみ
+
+  // NG 項目名（総合判定 overallOK の内訳）
+  const ng = [];
+  if (res.sectionUnresolved) ng.push("断面不明");
+  if (!(res.column.eta < 1)) ng.push("部材");
+  if (!(res.column.shear.eta < 1)) ng.push("せん断");
+  if (!res.column.slenderOK) ng.push("λ");
+  if (defl && !defl.ok) ng.push("たわみ");
+  if (!(res.anchor.etaCombined < 1)) ng.push("アンカー");
+  if (!res.anchor.edgeOK) ng.push("端距離");
+  if (!res.anchor.spacingOK) ng.push("列間隔");
+  if (!res.anchor.momentOK) ng.push("M抵抗");
+  if (!res.anchor.hefOK) ng.push("hef");
+  if (!res.plate.plateOK) ng.push("ベースt");
+  if (!res.plate.bearing.ok) ng.push("支圧");
+  if (fnd && !fnd.OT_OK) ng.push("転倒");
+  if (fnd && !fnd.SL_OK) ng.push("滑動");
+  if (fnd && !fnd.bearingOK) ng.push("支持力");
+
+  return {
+    file,
+    signType: input.signType,
+    section: res.column.section ? res.column.section.name : "",
+    anchor: res.anchor.spec.name,
+    etaColumn: res.column.eta,
+    etaShear: res.column.shear.eta,
+    etaAnchor: res.anchor.etaCombined,
+    deflMm: defl ? defl.delta * 1000 : null, // 頂部たわみ δ
+    deflAllowMm: defl ? defl.allow * 1000 : null,
+    defl: defl ? defl.delta / defl.allow : null, // δ/許容
+    plateBearing: res.plate.bearing.eta, // σc/fc（ベース下コンクリート支圧）
+    FS_OT: fnd ? fnd.FS_OT : null,
+    FS_SL: fnd ? fnd.FS_SL : null,
+    bearing: fnd ? fnd.sigma_max / 1000 / fnd.qa_allow_final : null, // σmax/qa
+    columnOK:
+      res.column.eta < 1 && res.column.shear.eta < 1 && res.column.slenderOK,
+    anchorOK: res.anchor.etaCombined < 1,
+    deflOK: defl ? defl.ok : null,
+    plateBearingOK: res.plate.bearing.ok,
+    OT_OK: fnd ? fnd.OT_OK : null,
+    SL_OK: fnd ? fnd.SL_OK : null,
+    bearingOK: fnd ? fnd.bearingOK : null,
+    overallOK: res.overallOK,
+    ngItems: ng.join(" "),
+    schemaFrom: fromVersion,
+    issues,
+    error: "",
+  };
+}
+
+const num = (v, d) =>
+  v === null || v === undefined ? "—" : Number.isFinite(v) ? v.toFixed(d) : "∞";
+const mark = (v, ok) => (ok === null ? v : `${v}${ok ? "" : "*"}`);
+
+function printTable(rows) {
+  const head = [
+    "file",
+    "type",
+    "eta_col",
+    "eta_anc",
+    "defl",
+    "pl_brg",
+    "FS_OT",
+    "FS_SL",
+    "bearing",
+    "result",
+  ];
+  const body = rows.map((r) =>
+    r.error
+      ? [r.file, "", "", "", "", "", "", "", "", `ERROR: ${r.error}`]
+      : [
+          r.file,
+          r.signType,
+          mark(num(r.etaColumn, 3), r.columnOK),
+          mark(num(r.etaAnchor, 3), r.anchorOK),
+          mark(num(r.defl, 3), r.deflOK),
+          mark(num(r.plateBearing, 3), r.plateBearingOK),
+          mark(num(r.FS_OT, 2), r.OT_OK),
+          mark(num(r.FS_SL, 2), r.SL_OK),
+          mark(num(r.bearing, 3), r.bearingOK),
+          r.overallOK ? "OK" : `NG（${r.ngItems}）`,
+        ]
+  );
+  const widths = head.map((h, i) =>
+    Math.max(h.length, ...body.map((b) => String(b[i]).length))
+  );
+  const line = (cols) =>
+    cols
+      .map((c, i) => String(c).padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+  console.log(line(head));
+  console.log(widths.map((w) => "-".repeat(w)).join("  "));
+  for (const b of body) console.log(line(b));
+  console.log(
+    "（* は個別項目 NG / defl = δ/許容たわみ / pl_brg = σc/fc / bearing = σmax/qa）"
+  );
+}
+
+function toCsv(rows) {
+  const cols = [
+    "file",
+    "signType",
+    "section",
+    "anchor",
+    "etaColumn",
+    "etaShear",
+    "etaAnchor",
+    "deflMm",
+    "deflAllowMm",
+    "plateBearing",
+    "FS_OT",
+    "FS_SL",
+    "bearing",
+    "overallOK",
+    "ngItems",
+    "error",
+  ];
+  const esc = (v) => {
+    const s = v === null || v === undefined ? "" : String(v);
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return [cols.join(",")]
+    .concat(rows.map((r) => cols.map((c) => esc(r[c])).join(",")))
+    .join("\n");
+}
+
+function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  if (opts.help || opts.inputs.length === 0) {
+    usage();
+    return opts.help ? 0 : 2;
+  }
+
+  let files;
+  try {
+    files = collectFiles(opts.inputs, [opts.json, opts.csv]);
+  } catch (e) {
+    console.error(`読込エラー: ${e.message || e}`);
+    return 2;
+  }
+  if (files.length === 0) {
+    console.error("設定ファイル（*.json）が見つかりません");
+    return 2;
+  }
+
+  const rows = files.map((file) => {
+    try {
+      return checkFile(file, opts.roundtrip);
+    } catch (e) {
+      const msg = String(e.message || e).replace(/\s+/g, " ");
+      return { file, overallOK: false, error: msg };
+    }
+  });
+
+  printTable(rows);
+
+  // 設定読込時の棄却・補正・移行（スキーマ検証）
+  for (const r of rows) {
+    if (r.issues && r.issues.length > 0) {
+      console.log(`\n${r.file}（schema v${r.schemaFrom}）:`);
+      console.log(formatConfigIssues(r.issues).replace(/^/gm, "  "));
+    }
+  }
+
+  if (opts.json) {
+    fs.writeFileSync(opts.json, JSON.stringify(rows, null, 2));
+  }
+  if (opts.csv) {
+    fs.writeFileSync(opts.csv, toCsv(rows) + "\n");
+  }
+
+  const nErr = rows.filter((r) => r.error).length;
+  const nNG = rows.filter((r) => !r.error && !r.overallOK).length;
+  console.log(
+    `\n${rows.length}件：OK=${
+      rows.length - nErr - nNG
+    } NG=${nNG} エラー=${nErr}`
+  );
+  if (nErr > 0) return 2;
+  return nNG > 0 ? 1 : 0;
+}
+
+process.exitCode = main();
@@ -28,31 +28,60 @@ import {
   GizmoHelper,
   GizmoViewport,
 } from "@react-three/drei";
-
-/* ==========================================
-   (C) アンカー コンクリ側引張：係数まとめ（追加）
-   置き場所：import の直後
-   ========================================== */
-const ANCHOR_CONC = {
-  // 係数（安全側の簡易モデル用）
-  // fck は N/mm2 を想定（= Fc）
-  // hef は mm を想定
-  // 単純化のため、複数低減をまとめて掛ける
-  k: 7.0, // 基本係数（簡易コーン破壊モデル用）
-  phi: 0.75, // 強度低減（安全側）
-  psiEdge: 0.85, // 端部・群効果などの簡易低減（安全側）
-  psiCrack: 0.85, // ひび割れ等の簡易低減（安全側）
-};
-
-/* ==========================================
-   (D) 根入れ抵抗（受働土圧）を簡易で加味（追加）
-   - 転倒：抵抗モーメントに加算
-   - 滑動：抵抗水平力に加算
-   ※地盤定数が無い簡易のため、Kpは代表値（砂質土φ=30°程度）を固定
-   ========================================== */
-const PASSIVE_SOIL = {
-  Kp: 3.0, // 受働土圧係数の代表値（簡易）
-};
+import {
+  ABR_ANCHORS,
+  ANCHOR_CONC,
+  ANCHOR_INTERACTION_FORMULA,
+  ANCHOR_INTERACTION_LABEL,
+  ANCHOR_MODE_LABEL,
+  ANCHOR_PATTERN_LABEL,
+  BASE_PLATE_MODE_LABEL,
+  CF_CATALOG,
+  CONFIG_APP,
+  CONFIG_MODEL_VER,
+  CONFIG_SCHEMA_VERSION,
+  DEFAULT_ANCHORS,
+  DEFAULT_SECTIONS,
+  PASSIVE_SOIL,
+  PLATE_T_OPTIONS,
+  SNOW_UNIT_W_GENERAL,
+  auditSection,
+  autoSelect,
+  calculateSign,
+  comboLabel,
+  completeSection,
+  findWindV0,
+  formatConfigIssues,
+  parseSignConfig,
+  resolveAnchor,
+  searchWindV0,
+  sectionGeometry,
+  signInputFromConfig,
+  toKgf,
+  whatIfWind,
+  windV0Label,
+} from "./engine";
+import type {
+  AnchorInteraction,
+  AnchorModeCheck,
+  AnchorPattern,
+  AnchorPoint,
+  AnchorSpec,
+  CfEntryId,
+  CfMode,
+  ConfigIssue,
+  FootShape,
+  GravityAnchorCheck,
+  SectionMismatch,
+  SectionSpec,
+  SeismicMode,
+  SignConfig,
+  SignConfigExtras,
+  SignInput,
+  SignType,
+  TerrainCategory,
+  WindMode,
+} from "./engine";
 
 /**
  * サイン構造計算(簡易版) — B版＋基礎深さH＋完全計算版（qa/Fc/μ・アンカー埋込み反映）
@@ -61,46 +90,13 @@ const PASSIVE_SOIL = {
  * - 自立看板：アンカーは ABR 規格（短期許容引張/せん断）を選択肢に固定
  * - 自立看板：有効埋込み長さ hef は 20d 以上（強制）
  * - ベースプレート板厚 t(採用)：16/19/22/25/28/32/36 mm のみ選択可（AI自動計算も同系列に丸め）
- * - (C) アンカーのコンクリ側引張耐力：楽観式ではなく安全側簡易モデル（係数）を採用
+ * - (C) アンカーのコンクリ側引張耐力：投影面積法（配置・縁・偏心から ψ を算定）
  * - (D) 自立看板の基礎鉛直荷重：土被り重量を加算
  * - (D) 自立看板の根入れ抵抗：受働土圧を簡易で加味（転倒・滑動）
  * - UI は純粋な HTML 要素のみ（独自 UI ライブラリへの import なし）
+ * - 計算本体は ./engine の calculateSign()（React 非依存）。本コンポーネントは入力と表示のみ
  */
 
-const G = 9.8; // m/s^2
-
-// ===== 風：基準速度圧（動圧）=====
-// q0 = 0.613 V^2 [N/m2] を「基準速度圧」として扱い、以降の係数で設計速度圧 qz を作る。
-const wind_q0 = (V0: number) => 0.613 * V0 * V0; // N/m²
-
-// ===== 風：設計速度圧（whatIf 用）=====
-// 風速 V を与えたときの設計速度圧 qz を返す
-// ※ CfMode により Kz/Gf/Iw/Kd/Kt の有効・無効（=1.0扱い）を切替
-const windPressure = (
-  V: number,
-  params: {
-    cfMode: "SHAPE_ONLY" | "CF_INCLUDES_ALL";
-    windKz: number;
-    windGf: number;
-    windIw: number;
-    windKd: number;
-    windKt: number;
-  }
-) => {
-  const q0v = wind_q0(V);
-
-  const Kz_eff = params.cfMode === "CF_INCLUDES_ALL" ? 1.0 : params.windKz;
-  const Gf_eff = params.cfMode === "CF_INCLUDES_ALL" ? 1.0 : params.windGf;
-  const Iw_eff = params.cfMode === "CF_INCLUDES_ALL" ? 1.0 : params.windIw;
-  const Kd_eff = params.cfMode === "CF_INCLUDES_ALL" ? 1.0 : params.windKd;
-  const Kt_eff = params.cfMode === "CF_INCLUDES_ALL" ? 1.0 : params.windKt;
-
-  return q0v * Kz_eff * Gf_eff * Iw_eff * Kd_eff * Kt_eff; // N/m²
-};
-
-const sigmaAllow = (Fy: number) => (2 / 3) * Fy; // N/mm²（一時設計）
-const toKgf = (N: number) => N / G;
-
 const fmt = (n: any, unit = "", digits = 2) => {
   const v = Number(n);
   if (!Number.isFinite(v)) return "—";
@@ -125,48 +121,22 @@ const fmtByMode = (v: number, d: number, mode: string, suf = "") => {
   return `${x.toFixed(d)}${suf}`;
 };
 
-// ===== ベースプレート板厚（採用品） =====
-const PLATE_T_OPTIONS = [16, 19, 22, 25, 28, 32, 36];
-const snapPlateT = (tReq: number) => {
-  for (const t of PLATE_T_OPTIONS) if (t >= tReq) return t;
-  return PLATE_T_OPTIONS[PLATE_T_OPTIONS.length - 1];
-};
-
-// Σy² 配分（2×2アンカー想定）
-function computeAnchorTensions(
-  M: number,
-  anchorGauge: number,
-  anchorPitch: number
-) {
-  const xh = anchorPitch / 2; // mm
-  const yh = anchorGauge / 2; // mm
-  const coords = [
-    { id: "UL", x: -xh, y: +yh },
-    { id: "UR", x: +xh, y: +yh },
-    { id: "LL", x: -xh, y: -yh },
-    { id: "LR", x: +xh, y: -yh },
-  ];
-  const sumY2 = coords.reduce((s, c) => s + Math.pow(c.y / 1000, 2), 0); // m²
-  const list = coords.map((c) => ({
-    id: c.id,
-    x: c.x,
-    y: c.y,
-    T: sumY2 > 0 ? (M * (c.y / 1000)) / sumY2 : 0,
-  }));
-  return { list, sumY2 };
-}
-
-// 片持ちストリップ板厚（簡易・集中荷重モデル）
-function computePlateThickness(
-  T_row: number,
-  a_mm: number,
-  s_mm: number,
-  plateFy: number
-) {
-  const sigma_a_plate = sigmaAllow(plateFy); // N/mm²
-  const m_Nmm_per_mm = (T_row * a_mm) / Math.max(1, s_mm); // N·mm/mm
-  return Math.sqrt((6 * m_Nmm_per_mm) / Math.max(sigma_a_plate, 1)); // mm
-}
+// アンカー座標指定 ⇔ テキスト（1行 "x,y"、数値でない行は無視）
+const formatAnchorCoords = (points: AnchorPoint[], sep = "\n") =>
+  points.map((p) => `${p.x},${p.y}`).join(sep);
+const parseAnchorCoords = (text: string): AnchorPoint[] =>
+  text
+    .split(/\r?\n/)
+    .map((line) =>
+      line
+        .split(/[,\s]+/)
+        .filter(Boolean)
+        .map(Number)
+    )
+    .filter(
+      (v) => v.length >= 2 && Number.isFinite(v[0]) && Number.isFinite(v[1])
+    )
+    .map(([x, y]) => ({ x, y }));
 
 // ===== 日本語ファミリ表記 =====
 const FAMILY_JP_MAP: Record<string, string> = {
@@ -183,618 +153,6 @@ const FAMILY_JP_MAP: Record<string, string> = {
   L: "L形鋼",
 };
 
-type AnchorSpec = {
-  name: string;
-  d: number;
-  Ta: number;
-  Va: number;
-  min_e?: number;
-  min_s?: number;
-  hefRec?: number;
-};
-type SectionSpec = {
-  family: string;
-  name: string;
-  A_cm2?: number;
-  w_kgpm?: number;
-  Ix_cm4?: number;
-  Iy_cm4?: number;
-  ix_cm?: number;
-  iy_cm?: number;
-  Zx_cm3?: number;
-  Zy_cm3?: number;
-};
-
-const DEFAULT_ANCHORS: AnchorSpec[] = [
-  {
-    name: "M12 A-BOLT",
-    d: 12,
-    Ta: 12000,
-    Va: 5000,
-    min_e: 18,
-    min_s: 36,
-    hefRec: 150,
-  },
-  {
-    name: "M16 A-BOLT",
-    d: 16,
-    Ta: 22000,
-    Va: 9000,
-    min_e: 24,
-    min_s: 48,
-    hefRec: 200,
-  },
-  {
-    name: "M20 A-BOLT",
-    d: 20,
-    Ta: 35000,
-    Va: 14000,
-    min_e: 30,
-    min_s: 60,
-    hefRec: 250,
-  },
-  {
-    name: "M24 A-BOLT",
-    d: 24,
-    Ta: 51000,
-    Va: 20000,
-    min_e: 36,
-    min_s: 72,
-    hefRec: 300,
-  },
-  {
-    name: "M30 A-BOLT",
-    d: 30,
-    Ta: 75000,
-    Va: 30000,
-    min_e: 45,
-    min_s: 90,
-    hefRec: 380,
-  },
-  {
-    name: "M32 A-BOLT",
-    d: 32,
-    Ta: 90000,
-    Va: 36000,
-    min_e: 48,
-    min_s: 96,
-    hefRec: 420,
-  },
-];
-
-// ===== 自立看板用：ABRアンカー（短期許容） =====
-const ABR_ANCHORS: AnchorSpec[] = [
-  { name: "M16 ABR", d: 16, Ta: 36.9e3, Va: 21.3e3 },
-  { name: "M20 ABR", d: 20, Ta: 57.6e3, Va: 33.2e3 },
-  { name: "M22 ABR", d: 22, Ta: 71.2e3, Va: 41.1e3 },
-  { name: "M24 ABR", d: 24, Ta: 83.0e3, Va: 47.9e3 },
-  { name: "M27 ABR", d: 27, Ta: 108e3, Va: 62.4e3 },
-  { name: "M30 ABR", d: 30, Ta: 132e3, Va: 76.2e3 },
-  { name: "M33 ABR", d: 33, Ta: 163e3, Va: 94.1e3 },
-  { name: "M36 ABR", d: 36, Ta: 192e3, Va: 111e3 },
-  { name: "M39 ABR", d: 39, Ta: 229e3, Va: 132e3 },
-  { name: "M42 ABR", d: 42, Ta: 263e3, Va: 152e3 },
-  { name: "M45 ABR", d: 45, Ta: 282e3, Va: 163e3 },
-  { name: "M48 ABR", d: 48, Ta: 316e3, Va: 182e3 },
-].map((a) => ({
-  ...a,
-  hefRec: a.d * 20, // 自立は 20d（表示用）
-}));
-
-const DEFAULT_SECTIONS: SectionSpec[] = [
-  // ==== H形鋼（よく使いそうなサイズを抜粋） ====
-  {
-    family: "H",
-    name: "H-100×50×5×7",
-    Zx_cm3: 37.5,
-    Zy_cm3: 5.91,
-    ix_cm: 3.98,
-    iy_cm: 1.12,
-  },
-  {
-    family: "H",
-    name: "H-100×100×6×8",
-    Zx_cm3: 75.6,
-    Zy_cm3: 26.7,
-    ix_cm: 4.18,
-    iy_cm: 2.49,
-  },
-  {
-    family: "H",
-    name: "H-125×60×6×8",
-    Zx_cm3: 65.5,
-    Zy_cm3: 9.71,
-    ix_cm: 4.95,
-    iy_cm: 1.32,
-  },
-  {
-    family: "H",
-    name: "H-150×75×5×7",
-    Zx_cm3: 88.8,
-    Zy_cm3: 13.2,
-    ix_cm: 6.11,
-    iy_cm: 1.66,
-  },
-  {
-    family: "H",
-    name: "H-150×150×7×10",
-    Zx_cm3: 216,
-    Zy_cm3: 75.1,
-    ix_cm: 6.4,
-    iy_cm: 3.77,
-  },
-  {
-    family: "H",
-    name: "H-175×175×7.5×11",
-    Zx_cm3: 331,
-    Zy_cm3: 112,
-    ix_cm: 7.5,
-    iy_cm: 4.37,
-  },
-  {
-    family: "H",
-    name: "H-200×100×5.5×8",
-    Zx_cm3: 181,
-    Zy_cm3: 26.7,
-    ix_cm: 8.23,
-    iy_cm: 2.24,
-  },
-  {
-    family: "H",
-    name: "H-200×200×8×12",
-    Zx_cm3: 472,
-    Zy_cm3: 160,
-    ix_cm: 8.62,
-    iy_cm: 5.02,
-  },
-
-  // ==== CT形鋼 ====
-  {
-    family: "CT",
-    name: "CT-50×50×5×7",
-    Zx_cm3: 3.18,
-    Zy_cm3: 2.96,
-    ix_cm: 1.41,
-    iy_cm: 1.12,
-  },
-  {
-    family: "CT",
-    name: "CT-75×75×5×7",
-    Zx_cm3: 7.46,
-    Zy_cm3: 6.6,
-    ix_cm: 2.18,
-    iy_cm: 1.66,
-  },
-  {
-    family: "CT",
-    name: "CT-100×100×5.5×8",
-    Zx_cm3: 14.8,
-    Zy_cm3: 13.4,
-    ix_cm: 2.93,
-    iy_cm: 2.24,
-  },
-  {
-    family: "CT",
-    name: "CT-125×125×6×9",
-    Zx_cm3: 25.6,
-    Zy_cm3: 23.5,
-    ix_cm: 3.66,
-    iy_cm: 2.82,
-  },
-  {
-    family: "CT",
-    name: "CT-150×150×6.5×9",
-    Zx_cm3: 40.0,
-    Zy_cm3: 33.8,
-    ix_cm: 4.45,
-    iy_cm: 3.29,
-  },
-  {
-    family: "CT",
-    name: "CT-175×175×7×11",
-    Zx_cm3: 60.2,
-    Zy_cm3: 51.0,
-    ix_cm: 5.1,
-    iy_cm: 3.95,
-  },
-  {
-    family: "CT",
-    name: "CT-200×200×8×12",
-    Zx_cm3: 90.5,
-    Zy_cm3: 76.3,
-    ix_cm: 5.92,
-    iy_cm: 4.5,
-  },
-  {
-    family: "CT",
-    name: "CT-250×250×9×14",
-    Zx_cm3: 150.4,
-    Zy_cm3: 126.8,
-    ix_cm: 7.4,
-    iy_cm: 5.6,
-  },
-  {
-    family: "CT",
-    name: "CT-300×300×10×15",
-    Zx_cm3: 228.6,
-    Zy_cm3: 193.5,
-    ix_cm: 8.85,
-    iy_cm: 6.72,
-  },
-  {
-    family: "CT",
-    name: "CT-350×350×12×18",
-    Zx_cm3: 340.3,
-    Zy_cm3: 285.7,
-    ix_cm: 10.4,
-    iy_cm: 8.05,
-  },
-
-  // ==== L形鋼 ====
-  {
-    family: "L",
-    name: "L-40×40×3",
-    Zx_cm3: 1.21,
-    Zy_cm3: 1.21,
-    ix_cm: 1.23,
-    iy_cm: 1.23,
-  },
-  {
-    family: "L",
-    name: "L-50×50×4",
-    Zx_cm3: 2.49,
-    Zy_cm3: 2.49,
-    ix_cm: 1.53,
-    iy_cm: 1.53,
-  },
-  {
-    family: "L",
-    name: "L-65×65×6",
-    Zx_cm3: 6.27,
-    Zy_cm3: 6.27,
-    ix_cm: 1.98,
-    iy_cm: 1.98,
-  },
-  {
-    family: "L",
-    name: "L-75×75×6",
-    Zx_cm3: 8.47,
-    Zy_cm3: 8.47,
-    ix_cm: 2.3,
-    iy_cm: 2.3,
-  },
-  {
-    family: "L",
-    name: "L-90×90×7",
-    Zx_cm3: 14.2,
-    Zy_cm3: 14.2,
-    ix_cm: 2.76,
-    iy_cm: 2.76,
-  },
-  {
-    family: "L",
-    name: "L-100×100×8",
-    Zx_cm3: 21.3,
-    Zy_cm3: 21.3,
-    ix_cm: 3.3,
-    iy_cm: 3.3,
-  },
-  {
-    family: "L",
-    name: "L-125×125×9",
-    Zx_cm3: 36.8,
-    Zy_cm3: 36.8,
-    ix_cm: 4.15,
-    iy_cm: 4.15,
-  },
-  {
-    family: "L",
-    name: "L-150×150×12",
-    Zx_cm3: 70.2,
-    Zy_cm3: 70.2,
-    ix_cm: 5.25,
-    iy_cm: 5.25,
-  },
-  {
-    family: "L",
-    name: "L-200×200×15",
-    Zx_cm3: 144.0,
-    Zy_cm3: 144.0,
-    ix_cm: 6.8,
-    iy_cm: 6.8,
-  },
-  {
-    family: "L",
-    name: "L-250×250×18",
-    Zx_cm3: 254.0,
-    Zy_cm3: 254.0,
-    ix_cm: 8.4,
-    iy_cm: 8.4,
-  },
-
-  // ==== みぞ形鋼（Cチャン） ====
-  {
-    family: "C",
-    name: "みぞ形鋼-75×40×5×7",
-    Zx_cm3: 20.2,
-    Zy_cm3: 4.54,
-    ix_cm: 2.93,
-    iy_cm: 1.19,
-  },
-  {
-    family: "C",
-    name: "みぞ形鋼-100×50×5×7.5",
-    Zx_cm3: 37.8,
-    Zy_cm3: 7.82,
-    ix_cm: 3.98,
-    iy_cm: 1.5,
-  },
-  {
-    family: "C",
-    name: "みぞ形鋼-125×65×6×8",
-    Zx_cm3: 68.0,
-    Zy_cm3: 14.4,
-    ix_cm: 4.99,
-    iy_cm: 1.96,
-  },
-  {
-    family: "C",
-    name: "みぞ形鋼-150×75×6.5×10",
-    Zx_cm3: 115,
-    Zy_cm3: 23.6,
-    ix_cm: 6.04,
-    iy_cm: 2.27,
-  },
-  {
-    family: "C",
-    name: "みぞ形鋼-200×70×7×10",
-    Zx_cm3: 162,
-    Zy_cm3: 21.8,
-    ix_cm: 7.77,
-    iy_cm: 2.04,
-  },
-
-  // ==== リップみぞ形鋼（LC） ====
-  {
-    family: "CLIP",
-    name: "リップみぞ形鋼-60×30×10×1.6",
-    Zx_cm3: 3.88,
-    Zy_cm3: 1.32,
-    ix_cm: 2.37,
-    iy_cm: 1.11,
-  },
-  {
-    family: "CLIP",
-    name: "リップみぞ形鋼-75×45×15×1.6",
-    Zx_cm3: 7.24,
-    Zy_cm3: 3.13,
-    ix_cm: 3.03,
-    iy_cm: 1.72,
-  },
-  {
-    family: "CLIP",
-    name: "リップみぞ形鋼-100×50×20×1.6",
-    Zx_cm3: 11.7,
-    Zy_cm3: 4.36,
-    ix_cm: 3.99,
-    iy_cm: 1.95,
-  },
-  {
-    family: "CLIP",
-    name: "リップみぞ形鋼-100×50×20×3.2",
-    Zx_cm3: 21.3,
-    Zy_cm3: 7.81,
-    ix_cm: 3.9,
-    iy_cm: 1.87,
-  },
-  {
-    family: "CLIP",
-    name: "リップみぞ形鋼-120×60×20×3.2",
-    Zx_cm3: 31.0,
-    Zy_cm3: 10.5,
-    ix_cm: 4.74,
-    iy_cm: 2.22,
-  },
-
-  // ==== I形鋼 ====
-  {
-    family: "I",
-    name: "I-100×75×5×8",
-    Zx_cm3: 56.5,
-    Zy_cm3: 12.9,
-    ix_cm: 4.15,
-    iy_cm: 1.72,
-  },
-  {
-    family: "I",
-    name: "I-150×75×5.5×9.5",
-    Zx_cm3: 109,
-    Zy_cm3: 15.8,
-    ix_cm: 6.13,
-    iy_cm: 1.65,
-  },
-  {
-    family: "I",
-    name: "I-200×100×7×10",
-    Zx_cm3: 218,
-    Zy_cm3: 28.4,
-    ix_cm: 8.11,
-    iy_cm: 2.07,
-  },
-  {
-    family: "I",
-    name: "I-250×125×7.5×12.5",
-    Zx_cm3: 415,
-    Zy_cm3: 55.2,
-    ix_cm: 10.3,
-    iy_cm: 2.66,
-  },
-  {
-    family: "I",
-    name: "I-300×150×8×13",
-    Zx_cm3: 633,
-    Zy_cm3: 80.0,
-    ix_cm: 12.4,
-    iy_cm: 3.12,
-  },
-
-  // ==== 角形鋼管（追加9種類） ====
-  {
-    family: "SHS",
-    name: "角形鋼管-50×50×3.2",
-    Zx_cm3: 20.7,
-    Zy_cm3: 20.7,
-    ix_cm: 1.75,
-    iy_cm: 1.75,
-  },
-  {
-    family: "SHS",
-    name: "角形鋼管-75×75×4.5",
-    Zx_cm3: 54.3,
-    Zy_cm3: 54.3,
-    ix_cm: 2.65,
-    iy_cm: 2.65,
-  },
-  {
-    family: "SHS",
-    name: "角形鋼管-100×100×4.5",
-    Zx_cm3: 102,
-    Zy_cm3: 102,
-    ix_cm: 3.48,
-    iy_cm: 3.48,
-  },
-  {
-    family: "SHS",
-    name: "角形鋼管-100×100×6",
-    Zx_cm3: 129,
-    Zy_cm3: 129,
-    ix_cm: 3.43,
-    iy_cm: 3.43,
-  },
-  {
-    family: "SHS",
-    name: "角形鋼管-125×125×6",
-    Zx_cm3: 207,
-    Zy_cm3: 207,
-    ix_cm: 4.55,
-    iy_cm: 4.55,
-  },
-  {
-    family: "SHS",
-    name: "角形鋼管-150×150×4.5",
-    Zx_cm3: 171,
-    Zy_cm3: 171,
-    ix_cm: 4.09,
-    iy_cm: 4.09,
-  },
-  {
-    family: "SHS",
-    name: "角形鋼管-200×200×6",
-    Zx_cm3: 416,
-    Zy_cm3: 416,
-    ix_cm: 6.45,
-    iy_cm: 6.45,
-  },
-  {
-    family: "SHS",
-    name: "角形鋼管-200×200×9",
-    Zx_cm3: 585,
-    Zy_cm3: 585,
-    ix_cm: 6.29,
-    iy_cm: 6.29,
-  },
-  {
-    family: "SHS",
-    name: "角形鋼管-250×250×9",
-    Zx_cm3: 1020,
-    Zy_cm3: 1020,
-    ix_cm: 7.86,
-    iy_cm: 7.86,
-  },
-
-  // ==== 鋼管 PIPE（10種類）====
-  {
-    family: "PIPE",
-    name: "鋼管-48.6×2.3",
-    Zx_cm3: 5.48,
-    Zy_cm3: 5.48,
-    ix_cm: 1.72,
-    iy_cm: 1.72,
-  },
-  {
-    family: "PIPE",
-    name: "鋼管-60.5×2.3",
-    Zx_cm3: 9.18,
-    Zy_cm3: 9.18,
-    ix_cm: 2.14,
-    iy_cm: 2.14,
-  },
-  {
-    family: "PIPE",
-    name: "鋼管-76.3×3.2",
-    Zx_cm3: 20.4,
-    Zy_cm3: 20.4,
-    ix_cm: 2.8,
-    iy_cm: 2.8,
-  },
-  {
-    family: "PIPE",
-    name: "鋼管-89.1×3.2",
-    Zx_cm3: 28.7,
-    Zy_cm3: 28.7,
-    ix_cm: 3.28,
-    iy_cm: 3.28,
-  },
-  {
-    family: "PIPE",
-    name: "鋼管-101.6×3.2",
-    Zx_cm3: 38.8,
-    Zy_cm3: 38.8,
-    ix_cm: 3.73,
-    iy_cm: 3.73,
-  },
-  {
-    family: "PIPE",
-    name: "鋼管-114.3×3.5",
-    Zx_cm3: 56.4,
-    Zy_cm3: 56.4,
-    ix_cm: 4.26,
-    iy_cm: 4.26,
-  },
-  {
-    family: "PIPE",
-    name: "鋼管-139.8×4.5",
-    Zx_cm3: 104.1,
-    Zy_cm3: 104.1,
-    ix_cm: 5.34,
-    iy_cm: 5.34,
-  },
-  {
-    family: "PIPE",
-    name: "鋼管-165.2×4.5",
-    Zx_cm3: 144.3,
-    Zy_cm3: 144.3,
-    ix_cm: 6.28,
-    iy_cm: 6.28,
-  },
-  {
-    family: "PIPE",
-    name: "鋼管-216.3×6.0",
-    Zx_cm3: 314.0,
-    Zy_cm3: 314.0,
-    ix_cm: 8.3,
-    iy_cm: 8.3,
-  },
-  {
-    family: "PIPE",
-    name: "鋼管-267.4×6.6",
-    Zx_cm3: 535.0,
-    Zy_cm3: 535.0,
-    ix_cm: 10.4,
-    iy_cm: 10.4,
-  },
-];
-
 export default function App() {
   // ===== 表示・PDF =====
   const [forceUnit, setForceUnit] = useState("N");
@@ -812,7 +170,6 @@ export default function App() {
   const [approver, setApprover] = useState("");
 
   // 製作・施工で迷うポイントを明示するための入力
-  const [plateD, setPlateD] = useState(0.4); // m（ベースプレート奥行）
   const [holeClearance, setHoleClearance] = useState(2); // mm（孔径= d + clearance）
   const [finishSpec, setFinishSpec] = useState("未定");
   const [concSpec, setConcSpec] = useState(
@@ -824,7 +181,7 @@ export default function App() {
   const [lawRef, setLawRef] = useState("告示1456号（　条　項）");
 
   // ===== サイン種別 =====
-  const [signType, setSignType] = useState("freestanding"); // freestanding | projecting | wall
+  const [signType, setSignType] = useState<SignType>("freestanding"); // freestanding | projecting | wall
 
   // ===== パネル =====
   const [width, setWidth] = useState(3.0);
@@ -838,12 +195,24 @@ export default function App() {
   const [family, setFamily] = useState(sections[0].family);
   const candidates = sections.filter((s) => s.family === family);
   const [sectionName, setSectionName] = useState(candidates[0]?.name || "");
+  // 入力値と断面名の寸法からの値の食い違い（断面DBの点検）
+  const sectionAudit = useMemo(
+    () =>
+      sections.reduce<SectionMismatch[]>(
+        (acc, s) => acc.concat(auditSection(s)),
+        []
+      ),
+    [sections]
+  );
   const [bendAxis, setBendAxis] = useState("x");
 
   // ===== 材料・部材 =====
   const [Fy, setFy] = useState(235); // N/mm²
   const [K, setK] = useState(1.0);
   const [L, setL] = useState(3.0); // m
+  const [Lb, setLb] = useState(0); // m（横座屈長さ、0 = L）
+  const [Cb, setCb] = useState(1.0);
+  const [windSweep, setWindSweep] = useState(false); // 斜め風の 2軸曲げ
 
   // ★柱本数 postQty（同じ断面・同条件の柱が何本あるか）
   const [postQty, setPostQty] = useState(1);
@@ -851,6 +220,17 @@ export default function App() {
   // ★柱間連結（耐風梁・ブレース等）あり前提か？
   const [hasInterPostConnection, setHasInterPostConnection] = useState(true);
 
+  // ===== 頂部たわみ（自立のみ）=====
+  const [deflRatio, setDeflRatio] = useState(100); // H/100
+  const [deflAllowMm, setDeflAllowMm] = useState(0); // mm（0 = H/deflRatio）
+  const [baseRotStiff, setBaseRotStiff] = useState(0); // kN·m/rad（0 = 固定）
+
+  // ブラケット（袖・壁付）：腕長 =（出幅 + 離れ）/ 2、鉛直荷重は上下の偶力
+  const [bracketProjection, setBracketProjection] = useState(0.9); // m
+  const [panelOffset, setPanelOffset] = useState(0.1); // m
+  const [bracketQty, setBracketQty] = useState(2);
+  const [bracketSpacing, setBracketSpacing] = useState(0.8); // m
+
   // ===== アンカー（非自立用DBを保持。自立は ABR 固定リストを使用） =====
   const [anchors, setAnchors] = useState<AnchorSpec[]>(DEFAULT_ANCHORS);
 
@@ -860,9 +240,17 @@ export default function App() {
     signType === "freestanding" ? initialABR : DEFAULT_ANCHORS[1];
 
   const [anchor, setAnchor] = useState<AnchorSpec>(initialAnchor);
-  const [anchorQty, setAnchorQty] = useState(4);
+  const [anchorPattern, setAnchorPattern] = useState<AnchorPattern>("GRID");
+  const [anchorQty, setAnchorQty] = useState(4); // 円周配置の本数
+  const [anchorRows, setAnchorRows] = useState(2); // 格子・外周の行数（縦）
+  const [anchorCols, setAnchorCols] = useState(2); // 格子・外周の列数（横）
   const [anchorGauge, setAnchorGauge] = useState(200); // mm（上下間隔）
   const [anchorPitch, setAnchorPitch] = useState(160); // mm（左右間隔）
+  const [anchorPCD, setAnchorPCD] = useState(300); // mm（円周配置）
+  const [anchorCoords, setAnchorCoords] = useState<AnchorPoint[]>([]);
+  const [anchorCoordsText, setAnchorCoordsText] = useState(""); // "x,y" 行
+  const [anchorInteraction, setAnchorInteraction] =
+    useState<AnchorInteraction>("LINEAR"); // 引張・せん断の相互作用式
   const [edge1, setEdge1] = useState(50); // mm
   const [edge2, setEdge2] = useState(50); // mm
   const [spacing, setSpacing] = useState(120); // mm
@@ -897,13 +285,14 @@ export default function App() {
   }, [signType, anchors]);
 
   // ===== プレート・基礎 =====
-  const [plateB, setPlateB] = useState(0.4); // m（プレート幅）
+  const [plateB, setPlateB] = useState(0.4); // m（プレート幅：曲げ方向）
+  const [plateD, setPlateD] = useState(0.4); // m（ベースプレート奥行）
   const [ecc, setEcc] = useState(0.05); // m
   const [soilQa, setSoilQa] = useState(150); // kPa 地盤許容
   const [mu, setMu] = useState(0.5);
 
   // --- 基礎形状モード（★追加） ---
-  const [footShape, setFootShape] = useState<"RECT" | "L">("RECT");
+  const [footShape, setFootShape] = useState<FootShape>("RECT");
 
   // --- 基礎外形（既存） ---
   const [footB, setFootB] = useState(0.8); // m（基礎幅：転倒方向）
@@ -970,6 +359,15 @@ export default function App() {
 
   // ===== 荷重（風：分解入力）=====
   const [windV0, setWindV0] = useState(34); // 基準風速 V0 [m/s]
+  // V0 の出典（告示1454号 主要都市表の "都道府県 市町村"、空文字 = 手入力）
+  const [windV0Source, setWindV0Source] = useState("");
+  const [windV0Query, setWindV0Query] = useState(""); // 市町村検索欄
+  const windV0Entry = findWindV0(windV0Source);
+  const windV0Mismatch = !!windV0Entry && windV0Entry.V0 !== windV0;
+  // 風圧の算定：MANUAL=Kz・Gf 手入力 / CODE=告示1454号（E=Er²·Gf）
+  const [windMode, setWindMode] = useState<WindMode>("MANUAL");
+  const [terrainCategory, setTerrainCategory] =
+    useState<TerrainCategory>("III"); // 地表面粗度区分
   const [windKz, setWindKz] = useState(1.0); // 高さ/地表面粗度等の係数（まとめ）Kz [-]
   const [windGf, setWindGf] = useState(1.0); // ガスト/突風等の係数（まとめ）Gf [-]
   const [windIw, setWindIw] = useState(1.0); // 重要度係数 Iw [-]
@@ -977,9 +375,7 @@ export default function App() {
   const [windKt, setWindKt] = useState(1.0); // 地形係数 Kt [-]（必要なら）
 
   // Cf の責任範囲を明示（最重要）
-  const [cfMode, setCfMode] = useState<"SHAPE_ONLY" | "CF_INCLUDES_ALL">(
-    "SHAPE_ONLY"
-  );
+  const [cfMode, setCfMode] = useState<CfMode>("SHAPE_ONLY");
   // ===== CfMode 切替時の安全策 =====
   // CF_INCLUDES_ALL のときは Kz/Gf/Iw/Kd/Kt を計算上 1.0 扱いにするため、
   // state も 1.0 にリセットして「値の持ち越し」を防止する
@@ -995,300 +391,325 @@ export default function App() {
 
   // Cf は「形状係数」に集約（cfMode=CF_INCLUDES_ALL の場合は Kz/Gf/Iw/Kd/Kt を 1.0 扱い）
   const [shapeCf, setShapeCf] = useState(2.0);
+  // Cf カタログ（形状のみモード）：MANUAL のときは shapeCf を使用
+  const [cfEntry, setCfEntry] = useState<CfEntryId>("MANUAL");
+  const [cfPorosity, setCfPorosity] = useState(0); // 開口率 0〜1
+  // 高さ方向の風圧分割数（告示算定時、2 以上で帯ごとの qz を積分）
+  const [windStrips, setWindStrips] = useState(0);
 
   const [areaFactor, setAreaFactor] = useState(1.0);
   const [seismicC0, setSeismicC0] = useState(0.3);
+  // 建物付属物の震度（袖・壁付のみ）：取付階・屋上から KH = Z·Ks
+  const [seismicMode, setSeismicMode] = useState<SeismicMode>("C0");
+  const [seismicZ, setSeismicZ] = useState(1.0);
+  const [mountFloor, setMountFloor] = useState(1);
+  const [buildingFloors, setBuildingFloors] = useState(1);
+  const [rooftop, setRooftop] = useState(false);
+  const [seismicVertical, setSeismicVertical] = useState(false);
+
+  // 積雪（看板上面 = 幅 × 奥行）：垂直積雪量 0 で積雪なし
+  const [snowDepth, setSnowDepth] = useState(0); // cm
+  const [snowUnitW, setSnowUnitW] = useState(SNOW_UNIT_W_GENERAL); // N/m²/cm
+  const [snowMulti, setSnowMulti] = useState(false); // 多雪区域
+  const [signDepth, setSignDepth] = useState(0.3); // m
 
   // 設計用水平力 Fh 入力（forceUnit 単位）※全体
   const [FhInput, setFhInput] = useState(0);
 
-  const panelArea = width * height * areaFactor;
-
-  // 基準速度圧 q0
-  const q0 = wind_q0(windV0);
-
-  // Cfに何を含めるかで、別係数側を無効化する（＝二重掛け防止）
-  const Kz_eff = cfMode === "CF_INCLUDES_ALL" ? 1.0 : windKz;
-  const Gf_eff = cfMode === "CF_INCLUDES_ALL" ? 1.0 : windGf;
-  const Iw_eff = cfMode === "CF_INCLUDES_ALL" ? 1.0 : windIw;
-  const Kd_eff = cfMode === "CF_INCLUDES_ALL" ? 1.0 : windKd;
-  const Kt_eff = cfMode === "CF_INCLUDES_ALL" ? 1.0 : windKt;
-
-  // 設計速度圧 qz
-  const qz = q0 * Kz_eff * Gf_eff * Iw_eff * Kd_eff * Kt_eff;
-
-  // 看板全体：風力
-  const Fw_total = qz * shapeCf * panelArea; // N
-
-  const Wself_total = panelKg * G; // N
-
-  const nCol_raw = Math.max(1, Math.floor(Number(postQty) || 1));
-
-  // ★連結なし（OFF）の場合：荷重は均等分担できない前提 → 1本扱い
-  const nCol = hasInterPostConnection ? nCol_raw : 1;
-
-  // 風・地震からの「自動」水平力（全体）
-  const Fh_auto_total = useMemo(
-    () =>
-      signType === "freestanding"
-        ? Math.max(Fw_total, Wself_total * seismicC0)
-        : Fw_total + Wself_total * seismicC0,
-    [signType, Fw_total, Wself_total, seismicC0]
-  );
-
-  // 入力Fh（forceUnit に応じて N に変換）※全体
-  const Fh_manual_total_N = useMemo(() => {
-    const v = Math.max(0, FhInput);
-    if (forceUnit === "kgf") return v * G;
-    return v;
-  }, [FhInput, forceUnit]);
-
-  // 設計に用いる Fh（全体）：入力値 > 0 のとき優先、0 のとき自動値
-  const Fh_total = useMemo(
-    () => (Fh_manual_total_N > 0 ? Fh_manual_total_N : Fh_auto_total),
-    [Fh_manual_total_N, Fh_auto_total]
-  );
-
-  // ★設計に用いる Fh（1本あたり）
-  const Fh = Fh_total / nCol;
-
-  // モーメント（1本あたり）
-  const M = useMemo(
-    () =>
-      signType === "freestanding"
-        ? Fh * cgHeight
-        : signType === "projecting"
-        ? Fh * 0.8
-        : Fh * 0.1,
-    [signType, Fh, cgHeight]
+  // ===== 計算エンジン入力（sign_config.json と同じキー）=====
+  const signInput = useMemo<SignInput>(
+    () => ({
+      forceUnit,
+      signType,
+      width,
+      height,
+      panelKg,
+      cgHeight,
+      areaFactor,
+      windV0,
+      windMode,
+      terrainCategory,
+      windKz,
+      windGf,
+      windIw,
+      windKd,
+      windKt,
+      cfMode,
+      shapeCf,
+      cfEntry,
+      cfPorosity,
+      windStrips,
+      seismicC0,
+      seismicMode,
+      seismicZ,
+      mountFloor,
+      buildingFloors,
+      rooftop,
+      seismicVertical,
+      snowDepth,
+      snowUnitW,
+      snowMulti,
+      signDepth,
+      FhInput,
+      sections,
+      family,
+      sectionName,
+      bendAxis,
+      Fy,
+      K,
+      L,
+      Lb,
+      Cb,
+      windSweep,
+      postQty,
+      hasInterPostConnection,
+      deflRatio,
+      deflAllowMm,
+      baseRotStiff,
+      bracketProjection,
+      panelOffset,
+      bracketQty,
+      bracketSpacing,
+      anchors,
+      anchorName: anchor?.name,
+      anchorPattern,
+      anchorQty,
+      anchorRows,
+      anchorCols,
+      anchorGauge,
+      anchorPitch,
+      anchorPCD,
+      anchorCoords,
+      anchorInteraction,
+      edge1,
+      edge2,
+      spacing,
+      anchorEmbed,
+      plateFy,
+      a_clear,
+      plateT,
+      plateB,
+      plateD,
+      footShape,
+      footB,
+      footD,
+      footH,
+      L_t1,
+      L_t2,
+      embedDepth,
+      etaPassive,
+      soilUnitW,
+      coverT,
+      concUnitW,
+      Fc,
+      soilQa,
+      mu,
+      gammaBearing,
+      reqFS_OT,
+      reqFS_SL,
+      allowUpliftOK,
+    }),
+    [
+      forceUnit,
+      signType,
+      width,
+      height,
+      panelKg,
+      cgHeight,
+      areaFactor,
+      windV0,
+      windMode,
+      terrainCategory,
+      windKz,
+      windGf,
+      windIw,
+      windKd,
+      windKt,
+      cfMode,
+      shapeCf,
+      cfEntry,
+      cfPorosity,
+      windStrips,
+      seismicC0,
+      seismicMode,
+      seismicZ,
+      mountFloor,
+      buildingFloors,
+      rooftop,
+      seismicVertical,
+      snowDepth,
+      snowUnitW,
+      snowMulti,
+      signDepth,
+      FhInput,
+      sections,
+      family,
+      sectionName,
+      bendAxis,
+      Fy,
+      K,
+      L,
+      Lb,
+      Cb,
+      windSweep,
+      postQty,
+      hasInterPostConnection,
+      deflRatio,
+      deflAllowMm,
+      baseRotStiff,
+      bracketProjection,
+      panelOffset,
+      bracketQty,
+      bracketSpacing,
+      anchors,
+      anchor,
+      anchorPattern,
+      anchorQty,
+      anchorRows,
+      anchorCols,
+      anchorGauge,
+      anchorPitch,
+      anchorPCD,
+      anchorCoords,
+      anchorInteraction,
+      edge1,
+      edge2,
+      spacing,
+      anchorEmbed,
+      plateFy,
+      a_clear,
+      plateT,
+      plateB,
+      plateD,
+      footShape,
+      footB,
+      footD,
+      footH,
+      L_t1,
+      L_t2,
+      embedDepth,
+      etaPassive,
+      soilUnitW,
+      coverT,
+      concUnitW,
+      Fc,
+      soilQa,
+      mu,
+      gammaBearing,
+      reqFS_OT,
+      reqFS_SL,
+      allowUpliftOK,
+    ]
   );
 
-  // ===== 断面特性 =====
-  const active =
-    candidates.find((s) => s.name === sectionName) || candidates[0];
-  const Zx = (active?.Zx_cm3 ?? 50) * 1e-6; // m³
-  const Zy = (active?.Zy_cm3 ?? 50) * 1e-6; // m³
-  const ix = (active?.ix_cm ?? 3) * 0.01; // m
-  const iy = (active?.iy_cm ?? 3) * 0.01; // m
-  const Z_axis = bendAxis === "x" ? Zx : Zy;
-  const r = bendAxis === "x" ? ix : iy;
-
-  // ===== 部材検定（1本あたり）=====
-  const sigma = M / Math.max(Z_axis, 1e-12) / 1e6; // N/mm²
-  const sigma_allow = sigmaAllow(Fy);
-  const etaColumn = sigma / sigma_allow;
-  const lambda = (K * L) / Math.max(r, 1e-6);
-  const slenderOK = lambda <= 200;
-
-  // ===== アンカー Σy² 配分（1本あたりMで検定）=====
-  const { list: T_each_list } = useMemo(
-    () => computeAnchorTensions(M, anchorGauge, anchorPitch),
-    [M, anchorGauge, anchorPitch]
-  );
-  const T_each = T_each_list;
-  const Tmax = Math.max(...T_each.map((o) => Math.max(0, o.T)), 0);
-
-  // ★簡易版：アンカー配置モデルは 2×2（4本）固定
-  const ANCHOR_CALC_QTY = Math.max(2, Math.floor(Number(anchorQty) || 4));
-  const V_anchor = Fh / ANCHOR_CALC_QTY;
-
-  const d = anchor.d;
-  const minEdge = anchor.min_e ?? Math.round(1.5 * d);
-  const minSpace = anchor.min_s ?? Math.round(3 * d);
-  const edge1OK = edge1 >= minEdge;
-  const edge2OK = signType === "projecting" ? true : edge2 >= minEdge;
-  const spacingOK = spacing >= minSpace;
-  const edgeOK = edge1OK && edge2OK;
-
-  // アンカー：コンクリート側引張耐力（新：安全側）
-  const hef = Number(anchorEmbed) || 0;
+  const calc = useMemo(() => calculateSign(signInput), [signInput]);
+
+  // ===== 表示用（エンジン結果の展開）=====
+  const {
+    q0,
+    qz,
+    cf: cfPick,
+    code: wind1454,
+    strips: windStripList,
+    zR,
+    zRWarn,
+  } = calc.wind;
+  const {
+    nCol_raw,
+    nCol,
+    Fh_auto_total,
+    Fh_total,
+    Fh,
+    postLen,
+    postWidth,
+    postCf,
+    w_post,
+    Fh_post,
+    M_post,
+    V_base,
+    M,
+    Wself_perCol,
+  } = calc.loads;
+  const {
+    sigma,
+    sigma_allow,
+    eta: etaColumn,
+    lambda,
+    slenderOK,
+  } = calc.column;
+  const {
+    Tmax,
+    V_anchor,
+    minEdge,
+    minSpace,
+    edgeOK,
+    spacingOK,
+    etaSteel: etaAnchorSteel,
+    etaConc: etaAnchorConc,
+    etaCombined: etaAnchorCombined,
+    hefReq,
+    hefOK,
+  } = calc.anchor;
+  const { a_mm, s_mm, t_req, plateOK, bearing } = calc.plate;
+
+  // ===== 荷重組合せ（表示用：各検定の支配組合せ）=====
+  const comboText = (id: string) => {
+    const c = calc.combos.find((x) => x.id === id);
+    return c ? comboLabel(c) : id;
+  };
+  const fndGov = calc.foundationGoverning;
+  // アンカー配置の説明（PDF・結果欄）
+  const anchorLayoutText = () =>
+    calc.anchor.pattern === "CIRCLE"
+      ? `${ANCHOR_PATTERN_LABEL.CIRCLE} PCD=${anchorPCD}mm`
+      : calc.anchor.pattern === "CUSTOM"
+      ? `${ANCHOR_PATTERN_LABEL.CUSTOM}（x,y）=${formatAnchorCoords(
+          anchorCoords,
+          " / "
+        )} mm`
+      : `${
+          ANCHOR_PATTERN_LABEL[calc.anchor.pattern]
+        } ${anchorRows}行×${anchorCols}列、縦間隔=${anchorGauge}mm, 横間隔=${anchorPitch}mm`;
   const FcNum = Number(Fc) || 0;
+  // 破壊モード別（1本あたり）
+  const anchorModeText = (m: AnchorModeCheck) =>
+    m.applicable
+      ? `${fmt(m.eta, "", 3)}（${m.kind}=${showF(
+          m.demand,
+          forceUnit
+        )} / ${showF(m.capacity, forceUnit)}）`
+      : "対象外";
+  const governingAnchorMode =
+    calc.anchor.modes.find((m) => m.id === calc.anchor.governingMode) ||
+    calc.anchor.modes[0];
+  // コーン破壊（投影面積法）の係数
+  const breakoutText = () => {
+    const b = calc.anchor.breakout;
+    return `${b.nT}本群, hef'=${fmt(b.hef, " mm", 0)}${
+      b.hefReduced ? "（3辺以上の縁で低減）" : ""
+    }, A_Nc/A_Nc0=${fmt(b.A_Nc / 1e4, "", 0)}/${fmt(
+      b.A_Nc0 / 1e4,
+      " cm²",
+      0
+    )}, ψed=${fmt(b.psiEd, "", 3)}（c_min=${fmt(
+      b.cMin,
+      " mm",
+      0
+    )}、縁距離 x−/x+/y−/y+=${fmt(b.edges.xMin, "", 0)}/${fmt(
+      b.edges.xMax,
+      "",
+      0
+    )}/${fmt(b.edges.yMin, "", 0)}/${fmt(b.edges.yMax, " mm", 0)}）, ψec=${fmt(
+      b.psiEc,
+      "",
+      3
+    )}（eN=${fmt(Math.hypot(b.eNx, b.eNy), " mm", 0)}）, ψc=${b.psiC}, φ=${
+      b.phi
+    }`;
+  };
 
-  const Ta_conc =
-    FcNum > 0 && hef > 0
-      ? ANCHOR_CONC.k *
-        Math.sqrt(FcNum) *
-        Math.pow(hef, 1.5) *
-        ANCHOR_CONC.phi *
-        ANCHOR_CONC.psiEdge *
-        ANCHOR_CONC.psiCrack
-      : 0;
-
-  const Ta_eff = Math.min(anchor.Ta, Ta_conc);
-  const Va_eff = anchor.Va;
-
-  const etaAnchorSteel = anchor.Ta > 0 ? Tmax / anchor.Ta : Infinity;
-  const etaAnchorConc = Ta_conc > 0 ? Tmax / Ta_conc : Infinity;
-  const etaAnchorLinear =
-    (Ta_eff > 0 ? Tmax / Ta_eff : Infinity) +
-    (Va_eff > 0 ? V_anchor / Va_eff : 0);
-
-  // hef 要件：自立＝20d、その他＝hefRec（無ければ10d）
-  const hefReq =
-    signType === "freestanding"
-      ? anchor.d * 20
-      : anchor.hefRec || anchor.d * 10;
-  const hefOK = anchorEmbed >= hefReq;
-
-  // ===== ベースプレート曲げ（1本あたり）=====
-  const a_mm = Math.max(10, a_clear);
-  const s_mm = Math.max(40, anchorPitch);
-  const T_row = Math.max(...T_each.filter((o) => o.y > 0).map((o) => o.T), 0);
-  const t_req = computePlateThickness(T_row, a_mm, s_mm, plateFy);
-  const plateOK = plateT >= t_req;
-
-  // ===== 基礎判定（通常計算・AI最適化で完全共有）=====
-  // ※(D) 土被り重量 + 根入れ抵抗（受働土圧）を簡易で加味
-  function evalFoundation(B: number, D: number, H: number) {
-    // --- L型対応：有効面積 A を定義（RECT：B*D、L：帯L＝B*t + D*t − t*t） ---
-    const t1 = Math.max(0, Number(L_t1) || 0);
-    const t2 = Math.max(0, Number(L_t2) || 0);
-
-    // --- L形（片腕・帯）：平面有効面積 ---
-    // A = B·t1 + D·t2 − t1·t2（重なり控除）
-    const A =
-      footShape === "L"
-        ? Math.max(B * t1 + D * t2 - t1 * t2, 1e-9)
-        : Math.max(B * D, 1e-9);
-
-    // 偏心・接地圧の簡易評価（Bモード：幅Bで評価）
-    // 1本あたりの鉛直（看板自重）は外側スコープの Wself_perCol を参照
-
-    // 1) 重量用の有効面積：L形は A_weight（矩形はB*D）
-    const A_weight =
-      footShape === "L"
-        ? Math.max(B * t1 + D * t2 - t1 * t2, 1e-9)
-        : Math.max(B * D, 1e-9);
-
-    const Wconc = concUnitW * 1000 * (A_weight * H); // N（kN/m3→N/m3）
-    const Wcover = soilUnitW * 1000 * (A_weight * coverT); // N（土被り）
-    const N = Wconc + Wcover + Wself_perCol; // 合計鉛直力 N
-
-    // 2) 偏心（符号は不要：大きさで判定）
-    const e = Math.abs(M) / Math.max(N, 1e-9); // m
-    const e_lim = B / 6; // ★Bモード：常にB/6
-
-    // 3) 接地状態判定（B方向）
-    let sigma_max = Infinity;
-    let sigma_min = 0;
-    let noUplift = false;
-
-    let contactMode: "full" | "partial" | "none" = "full";
-    let b_eff = B; // 有効接地幅（B方向）
-
-    if (e <= e_lim) {
-      contactMode = "full";
-      b_eff = B;
-    } else if (e < B / 2) {
-      contactMode = "partial";
-      b_eff = Math.max(3 * (B / 2 - e), 0); // 三角分布の等価幅
-    } else {
-      contactMode = "none";
-      b_eff = 0;
-    }
-
-    // 4) 接地圧の評価は B×D を基準に統一（B方向の片圧モデルと整合）
-    const A_full = Math.max(B * D, 1e-9);
-    const A_contact = Math.max(b_eff * D, 1e-9);
-
-    if (contactMode === "full") {
-      const sigma_avg_full = N / A_full; // N/m²
-      sigma_max = sigma_avg_full * (1 + (6 * e) / Math.max(B, 1e-9));
-      sigma_min = sigma_avg_full * (1 - (6 * e) / Math.max(B, 1e-9));
-      noUplift = sigma_min >= 0;
-    } else if (contactMode === "partial") {
-      sigma_max = (2 * N) / A_contact; // N/m²
-      sigma_min = 0;
-      noUplift = false;
-    } else {
-      sigma_max = Infinity;
-      sigma_min = 0;
-      noUplift = false;
-    }
-
-    const qa_allow_soil = soilQa / Math.max(gammaBearing, 1e-9); // kPa
-    const qa_allow_conc = 0.25 * Fc * 1000; // kPa（0.25Fc）
-    const qa_allow_final = Math.min(qa_allow_soil, qa_allow_conc);
-    const bearingOK = isFinite(sigma_max)
-      ? sigma_max / 1000 <= qa_allow_final
-      : false;
-
-    // ===== 根入れ抵抗（受働土圧）=====
-    // 受働土圧合力 Pp = 1/2 * Kp * γ * D * z^2
-    // ここで γ=soilUnitW (kN/m3) を N/m3 に変換
-    const z = Math.max(0, Number(embedDepth) || 0); // m
-    const gammaN = soilUnitW * 1000; // N/m3
-    // 受働土圧（低減係数 ηp を考慮）
-    const Pp_raw = z > 0 ? 0.5 * PASSIVE_SOIL.Kp * gammaN * D * z * z : 0; // N
-
-    const Pp = Pp_raw * etaPassive; // ★低減後 受働土圧
-    const M_passive = z > 0 ? Pp * (z / 3) : 0; // N·m
-
-    // ===== 転倒 =====
-    // 抵抗モーメント Mr = N*(B/2 - e) + M_passive（浮上り時はB/2-eが小さくなる）
-    const leverArm_OT = Math.max(B / 2 - e, 0); // ★追加：FS計算と同じレバーアーム
-    const MrN = N * leverArm_OT;
-    const Mr = MrN + M_passive;
-    const FS_OT = Mr / Math.max(Math.abs(M), 1e-9);
-
-    const OT_OK = allowUpliftOK
-      ? FS_OT >= reqFS_OT
-      : FS_OT >= reqFS_OT && noUplift;
-
-    // ===== 滑動（受働抵抗を加味）=====
-    // 浮上り時の有効鉛直力は「接地率」で低減（0.5固定より説明が通る）
-    const contactRatio = B > 0 ? Math.min(Math.max(b_eff / B, 0), 1) : 0;
-    const N_eff = N * contactRatio;
-
-    const R_slide = mu * N_eff + Pp; // N（摩擦 + 受働）
-    const FS_SL = R_slide / Math.max(Fh, 1e-9);
-    const SL_OK = FS_SL >= reqFS_SL;
-
-    // ===== 総合判定 =====
-    const ok = bearingOK && OT_OK && SL_OK;
-
-    return {
-      ok,
-      N,
-      e,
-      sigma_max,
-      sigma_min,
-      noUplift,
-      qa_allow_soil,
-      qa_allow_conc,
-      qa_allow_final,
-      bearingOK,
-      leverArm_OT,
-      FS_OT,
-      OT_OK,
-      FS_SL,
-      SL_OK,
-
-      // ★改善：滑動の注記（接地長連動を明示）
-      slideNote: noUplift
-        ? "滑動: N_eff = N（全面圧縮）"
-        : `滑動: N_eff = N×接地率（接地率 = b_eff/B = ${contactRatio.toFixed(
-            2
-          )}、片圧）`,
-
-      volume: A * H,
-      areaBD: A,
-      B_eff: B,
-      B,
-      D,
-      H,
-      Pp,
-      Pp_raw,
-      M_passive,
-      z,
-      R_slide,
-    };
-  }
   // ===== 基礎（1本あたり：共通関数の結果を使用）=====
-  const Wself_perCol = Wself_total / nCol;
-
-  const fnd =
-    signType === "freestanding" ? evalFoundation(footB, footD, footH) : null;
+  const fnd = calc.foundation;
 
   const N_foundation = fnd?.N ?? 0;
   const e_f = fnd?.e ?? 0;
@@ -1305,7 +726,6 @@ export default function App() {
   const bearingOK = fnd?.bearingOK ?? true;
 
   // ===== 転倒：浮上り時に過大表示しないFS_OT（共通）=====
-  const leverArm_OT = fnd?.leverArm_OT ?? footB / 2;
   const FS_OT = fnd?.FS_OT ?? 0;
 
   // 判定モード切替（共通）
@@ -1322,7 +742,6 @@ export default function App() {
   const Pp = fnd?.Pp ?? 0;
   const Pp_raw = fnd?.Pp_raw ?? 0;
   const M_passive = fnd?.M_passive ?? 0;
-  const R_slide = fnd?.R_slide ?? 0;
   const z_embed = fnd?.z ?? 0;
 
   /* ===== ★追加：結果欄表示用（基礎形状・面積式）===== */
@@ -1346,9 +765,6 @@ export default function App() {
         )} m²`
       : `A = B×D = ${(fnd?.areaBD ?? 0).toFixed(3)} m²`;
 
-  // ===== 基礎総合判定 =====
-  const foundationOK = signType !== "freestanding" || (fnd?.ok ?? false);
-
   // FS_OT の注記用（結果欄で使う）
   // ※ evalFoundation の実装（leverArm_OT = max(B/2 - e, 0)）と整合
   const fsOtAssumptionNote =
@@ -1358,51 +774,10 @@ export default function App() {
         : "レバーアーム = max(B/2 − e, 0)（片圧）"
       : "";
   // ===== 総合 =====
-  const overallOK =
-    etaColumn < 1 &&
-    slenderOK &&
-    etaAnchorLinear < 1 &&
-    foundationOK &&
-    edgeOK &&
-    spacingOK &&
-    plateOK &&
-    hefOK;
+  const overallOK = calc.overallOK;
 
   // What-if（風）※Fh入力とは別に、純粋な風による η を可視化（1本あたりで表示）
-  const whatIf = useMemo(() => {
-    const arr: { V: number; eta: number }[] = [];
-    for (let V = 20; V <= 50; V += 2) {
-      const qv = windPressure(V, {
-        cfMode,
-        windKz,
-        windGf,
-        windIw,
-        windKd,
-        windKt,
-      });
-      const FwV_total = qv * shapeCf * panelArea;
-      const FhV_total =
-        signType === "freestanding"
-          ? Math.max(FwV_total, Wself_total * seismicC0)
-          : FwV_total + Wself_total * seismicC0;
-
-      const FhV = FhV_total / nCol;
-      const MV = signType === "freestanding" ? FhV * cgHeight : FhV * 0.8;
-      const sV = MV / Math.max(Z_axis, 1e-12) / 1e6;
-      arr.push({ V, eta: sV / sigma_allow });
-    }
-    return arr;
-  }, [
-    shapeCf,
-    panelArea,
-    signType,
-    Wself_total,
-    seismicC0,
-    cgHeight,
-    Z_axis,
-    sigma_allow,
-    nCol,
-  ]);
+  const whatIf = useMemo(() => whatIfWind(signInput), [signInput]);
 
   // ===== JSON IO (DB) =====
   function handleImportAnchors(file: File) {
@@ -1429,6 +804,7 @@ export default function App() {
               min_e: Number.isFinite(o.min_e) ? o.min_e : undefined,
               min_s: Number.isFinite(o.min_s) ? o.min_s : undefined,
               hefRec: Number.isFinite(o.hefRec) ? o.hefRec : undefined,
+              Abrg_mm2: Number.isFinite(o.Abrg_mm2) ? o.Abrg_mm2 : undefined,
             });
           }
         }
@@ -1487,6 +863,18 @@ export default function App() {
     };
     r.readAsText(file);
   }
+  // 未入力の断面性能を断面名の寸法から補う（入力済みの値は残す）
+  function handleCompleteSections() {
+    const next = sections.map((s) => completeSection(s));
+    const filled = next.filter((s, i) => s !== sections[i]).length;
+    const unparsed = sections.filter((s) => !sectionGeometry(s)).length;
+    setSections(next);
+    alert(
+      `寸法から補完：${filled}件${
+        unparsed > 0 ? `（断面名を解釈できない ${unparsed}件は対象外）` : ""
+      }`
+    );
+  }
   function handleExportSections() {
     const blob = new Blob([JSON.stringify(sections, null, 2)], {
       type: "application/json",
@@ -1499,10 +887,16 @@ export default function App() {
 
   // ===== 設定入出力 =====
   const hiddenCfgInputRef = useRef<HTMLInputElement | null>(null);
-  function buildConfig() {
+  // 型 SignConfig により、計算エンジンが読む全項目の保存漏れをコンパイル時に検出
+  function buildConfig(): SignConfig & {
+    __app: string;
+    __ver: string;
+    __schema: number;
+  } {
     return {
-      __app: "SignWizard",
-      __ver: "B-Fc36-ABR-20D-PLT-SELECT-PASSIVE",
+      __app: CONFIG_APP,
+      __ver: CONFIG_MODEL_VER,
+      __schema: CONFIG_SCHEMA_VERSION,
       forceUnit,
       pdfSigmaDigits,
       pdfMDigits,
@@ -1513,9 +907,30 @@ export default function App() {
       panelKg,
       cgHeight,
       windV0,
+      windMode,
+      terrainCategory,
+      windKz,
+      windGf,
+      windIw,
+      windKd,
+      windKt,
+      cfMode,
       shapeCf,
+      cfEntry,
+      cfPorosity,
+      windStrips,
       areaFactor,
       seismicC0,
+      seismicMode,
+      seismicZ,
+      mountFloor,
+      buildingFloors,
+      rooftop,
+      seismicVertical,
+      snowDepth,
+      snowUnitW,
+      snowMulti,
+      signDepth,
       sections,
       family,
       sectionName,
@@ -1523,14 +938,30 @@ export default function App() {
       Fy,
       K,
       L,
+      Lb,
+      Cb,
+      windSweep,
       postQty,
       hasInterPostConnection, // ★追加：柱間連結
+      deflRatio,
+      deflAllowMm,
+      baseRotStiff,
+      bracketProjection,
+      panelOffset,
+      bracketQty,
+      bracketSpacing,
 
       anchors,
       anchorName: anchor?.name,
+      anchorPattern,
       anchorQty,
+      anchorRows,
+      anchorCols,
       anchorGauge,
       anchorPitch,
+      anchorPCD,
+      anchorCoords,
+      anchorInteraction,
       edge1,
       edge2,
       spacing,
@@ -1538,6 +969,7 @@ export default function App() {
       a_clear,
       plateT,
       plateB,
+      plateD,
       ecc,
       soilQa,
       mu,
@@ -1545,7 +977,16 @@ export default function App() {
       footD,
       footH,
       embedDepth,
+      embedDepthAuto,
       etaPassive, // ★追加
+      footShape,
+      L_t1,
+      L_t2,
+      soilUnitW,
+      coverT,
+      usePassive,
+      passiveEta,
+      frontAvailable,
       concUnitW,
       reqFS_OT,
       reqFS_SL,
@@ -1560,7 +1001,6 @@ export default function App() {
       author,
       checker,
       approver,
-      plateD,
       holeClearance,
       finishSpec,
       concSpec,
@@ -1569,131 +1009,162 @@ export default function App() {
 
       allowUpliftOK,
       foundationOptMode,
+      windV0Source,
     };
   }
-  function applyConfig(cfg: any) {
-    if (!cfg || typeof cfg !== "object") {
-      throw new Error("設定オブジェクト不正");
-    }
-
-    if (typeof cfg.allowUpliftOK === "boolean") {
-      setAllowUpliftOK(cfg.allowUpliftOK);
-    }
-    if (cfg.foundationOptMode === "BD" || cfg.foundationOptMode === "VOL") {
-      setFoundationOptMode(cfg.foundationOptMode);
-    }
-
-    const num = (v: any) => Number.isFinite(v);
-    const str = (v: any) => typeof v === "string";
-    const arr = (a: any) => Array.isArray(a) && a.length > 0;
-
-    const signTypeFromCfg = str(cfg.signType) ? cfg.signType : signType;
-
-    if (str(cfg.forceUnit)) setForceUnit(cfg.forceUnit);
-    if (num(cfg.pdfSigmaDigits)) setPdfSigmaDigits(cfg.pdfSigmaDigits);
-    if (num(cfg.pdfMDigits)) setPdfMDigits(cfg.pdfMDigits);
-    if (str(cfg.pdfRoundingMode)) setPdfRoundingMode(cfg.pdfRoundingMode);
-    if (str(cfg.signType)) setSignType(cfg.signType);
-    if (num(cfg.width)) setWidth(cfg.width);
-    if (num(cfg.height)) setHeight(cfg.height);
-    if (num(cfg.panelKg)) setPanelKg(cfg.panelKg);
-    if (num(cfg.cgHeight)) setCgHeight(cfg.cgHeight);
-    // 風速（保存キー：windV0）※旧キー V0 も互換で拾う
-    if (num(cfg.windV0)) setWindV0(cfg.windV0);
-    else if (num(cfg.V0)) setWindV0(cfg.V0);
-    if (num(cfg.shapeCf)) setShapeCf(cfg.shapeCf);
-    if (num(cfg.areaFactor)) setAreaFactor(cfg.areaFactor);
-    if (num(cfg.seismicC0)) setSeismicC0(cfg.seismicC0);
-    if (arr(cfg.sections)) setSections(cfg.sections);
-    if (str(cfg.family)) setFamily(cfg.family);
-    if (str(cfg.sectionName)) setSectionName(cfg.sectionName);
-    if (str(cfg.bendAxis)) setBendAxis(cfg.bendAxis);
-    if (num(cfg.Fy)) setFy(cfg.Fy);
-    if (num(cfg.K)) setK(cfg.K);
-    if (num(cfg.L)) setL(cfg.L);
-
-    if (num(cfg.postQty)) setPostQty(Math.max(1, Math.floor(cfg.postQty)));
-    if (typeof cfg.hasInterPostConnection === "boolean")
-      setHasInterPostConnection(cfg.hasInterPostConnection);
-
-    // 非自立アンカーDB
-    if (arr(cfg.anchors)) setAnchors(cfg.anchors);
-
-    // アンカー選定（自立は ABR 優先）
-    if (str(cfg.anchorName)) {
-      const list =
-        signTypeFromCfg === "freestanding"
-          ? ABR_ANCHORS
-          : Array.isArray(cfg.anchors)
-          ? cfg.anchors
-          : anchors;
-
-      const pick =
-        list.find((a: AnchorSpec) => a.name === cfg.anchorName) || list[0];
-      if (pick) {
-        setAnchor(pick);
-        const minHef =
-          signTypeFromCfg === "freestanding"
-            ? pick.d * 20
-            : pick.hefRec || pick.d * 10;
-        setAnchorEmbed(minHef);
-      }
+  // SignInput → 各 state（全キーの setter を型で強制）
+  function applySignInput(input: SignInput) {
+    const set: { [K in keyof SignInput]-?: (v: SignInput[K]) => void } = {
+      forceUnit: setForceUnit,
+      signType: setSignType,
+      width: setWidth,
+      height: setHeight,
+      panelKg: setPanelKg,
+      cgHeight: setCgHeight,
+      areaFactor: setAreaFactor,
+      windV0: setWindV0,
+      windMode: setWindMode,
+      terrainCategory: setTerrainCategory,
+      windKz: setWindKz,
+      windGf: setWindGf,
+      windIw: setWindIw,
+      windKd: setWindKd,
+      windKt: setWindKt,
+      cfMode: setCfMode,
+      shapeCf: setShapeCf,
+      cfEntry: setCfEntry,
+      cfPorosity: setCfPorosity,
+      windStrips: setWindStrips,
+      seismicC0: setSeismicC0,
+      seismicMode: setSeismicMode,
+      seismicZ: setSeismicZ,
+      mountFloor: setMountFloor,
+      buildingFloors: setBuildingFloors,
+      rooftop: setRooftop,
+      seismicVertical: setSeismicVertical,
+      FhInput: setFhInput,
+      snowDepth: setSnowDepth,
+      snowUnitW: setSnowUnitW,
+      snowMulti: setSnowMulti,
+      signDepth: setSignDepth,
+      sections: setSections,
+      family: setFamily,
+      sectionName: setSectionName,
+      bendAxis: setBendAxis,
+      Fy: setFy,
+      K: setK,
+      L: setL,
+      Lb: setLb,
+      Cb: setCb,
+      windSweep: setWindSweep,
+      postQty: setPostQty,
+      hasInterPostConnection: setHasInterPostConnection,
+      deflRatio: setDeflRatio,
+      deflAllowMm: setDeflAllowMm,
+      baseRotStiff: setBaseRotStiff,
+      bracketProjection: setBracketProjection,
+      panelOffset: setPanelOffset,
+      bracketQty: setBracketQty,
+      bracketSpacing: setBracketSpacing,
+      anchors: setAnchors,
+      // 候補照合・hef 補正は signInputFromConfig で済んでいる
+      anchorName: (name) =>
+        setAnchor(resolveAnchor(input.signType, input.anchors, name)),
+      anchorPattern: setAnchorPattern,
+      anchorQty: setAnchorQty,
+      anchorRows: setAnchorRows,
+      anchorCols: setAnchorCols,
+      anchorGauge: setAnchorGauge,
+      anchorPitch: setAnchorPitch,
+      anchorPCD: setAnchorPCD,
+      anchorCoords: (points) => {
+        setAnchorCoords(points);
+        setAnchorCoordsText(formatAnchorCoords(points));
+      },
+      anchorInteraction: setAnchorInteraction,
+      edge1: setEdge1,
+      edge2: setEdge2,
+      spacing: setSpacing,
+      anchorEmbed: setAnchorEmbed,
+      plateFy: setPlateFy,
+      a_clear: setAclear,
+      plateT: setPlateT, // 選択肢に丸め済み
+      plateB: setPlateB,
+      plateD: setPlateD,
+      footShape: setFootShape,
+      footB: setFootB,
+      footD: setFootD,
+      footH: setFootH,
+      L_t1: setLt1,
+      L_t2: setLt2,
+      embedDepth: setEmbedDepth,
+      etaPassive: setEtaPassive,
+      soilUnitW: setSoilUnitW,
+      coverT: setCoverT,
+      concUnitW: setConcUnitW,
+      Fc: setFc,
+      soilQa: setSoilQa,
+      mu: setMu,
+      gammaBearing: setGammaBearing,
+      reqFS_OT: setReqFS_OT,
+      reqFS_SL: setReqFS_SL,
+      allowUpliftOK: setAllowUpliftOK,
+    };
+    for (const key of Object.keys(set) as (keyof SignInput)[]) {
+      (set[key] as (v: unknown) => void)(input[key]);
     }
+  }
 
-    if (num(cfg.anchorQty)) setAnchorQty(cfg.anchorQty);
-    if (num(cfg.anchorGauge)) setAnchorGauge(cfg.anchorGauge);
-    if (num(cfg.anchorPitch)) setAnchorPitch(cfg.anchorPitch);
-    if (num(cfg.edge1)) setEdge1(cfg.edge1);
-    if (num(cfg.edge2)) setEdge2(cfg.edge2);
-    if (num(cfg.spacing)) setSpacing(cfg.spacing);
-    if (num(cfg.plateFy)) setPlateFy(cfg.plateFy);
-    if (num(cfg.a_clear)) setAclear(cfg.a_clear);
-
-    // plateT は選択肢に丸め
-    if (num(cfg.plateT)) setPlateT(snapPlateT(cfg.plateT));
-
-    if (num(cfg.plateB)) setPlateB(cfg.plateB);
-    if (num(cfg.ecc)) setEcc(cfg.ecc);
-    if (num(cfg.soilQa)) setSoilQa(cfg.soilQa);
-    if (num(cfg.mu)) setMu(cfg.mu);
-    if (num(cfg.footB)) setFootB(cfg.footB);
-    if (num(cfg.footD)) setFootD(cfg.footD);
-    if (num(cfg.footH)) setFootH(cfg.footH);
-    if (num(cfg.embedDepth)) setEmbedDepth(cfg.embedDepth);
-    // ★追加：受働土圧低減係数
-    if (num(cfg.etaPassive)) {
-      setEtaPassive(Math.min(Math.max(cfg.etaPassive, 0.1), 1.0));
-    }
-    if (num(cfg.concUnitW)) setConcUnitW(cfg.concUnitW);
-    if (num(cfg.reqFS_OT)) setReqFS_OT(cfg.reqFS_OT);
-    if (num(cfg.reqFS_SL)) setReqFS_SL(cfg.reqFS_SL);
-    if (num(cfg.gammaBearing)) setGammaBearing(cfg.gammaBearing);
-    if (num(cfg.Fc)) setFc(cfg.Fc);
-
-    if (num(cfg.anchorEmbed)) {
-      const minHef =
-        signTypeFromCfg === "freestanding"
-          ? (anchor?.d || 27) * 20
-          : anchor?.hefRec || (anchor?.d || 16) * 10;
-      setAnchorEmbed(Math.max(minHef, cfg.anchorEmbed));
+  function applyConfig(raw: any): ConfigIssue[] {
+    // 版判定 → マイグレーション → 全項目の型・範囲検証
+    // cfg には検証を通った項目のみが入る（棄却・補正は issues に列挙）
+    const { config: cfg, issues } = parseSignConfig(raw);
+
+    // 計算入力は CLI（sign-batch）と同じ変換で確定する
+    // 欠落キーは現在の state ではなく既定値（同じファイルなら UI と CLI で同じ結果）
+    applySignInput(signInputFromConfig(cfg, issues));
+
+    // ===== 計算入力以外（表示・PDF・AI最適化）：欠落キーは現在値のまま =====
+    const set: {
+      [K in keyof SignConfigExtras]-?: (v: SignConfigExtras[K]) => void;
+    } = {
+      pdfSigmaDigits: setPdfSigmaDigits,
+      pdfMDigits: setPdfMDigits,
+      pdfRoundingMode: setPdfRoundingMode,
+      ecc: setEcc,
+      holeClearance: setHoleClearance,
+      projectName: setProjectName,
+      projectNo: setProjectNo,
+      rev: setRev,
+      author: setAuthor,
+      checker: setChecker,
+      approver: setApprover,
+      finishSpec: setFinishSpec,
+      concSpec: setConcSpec,
+      lawRef: setLawRef,
+      siteNotes: setSiteNotes,
+      foundationOptMode: setFoundationOptMode,
+      windV0Source: (source) => {
+        setWindV0Source(source);
+        setWindV0Query(source);
+        if (source && !findWindV0(source)) {
+          issues.push({
+            key: "windV0Source",
+            action: "ignored",
+            message: `${source} は V0 表に無いため手入力扱い`,
+          });
+        }
+      },
+      embedDepthAuto: setEmbedDepthAuto,
+      usePassive: setUsePassive,
+      passiveEta: setPassiveEta,
+      frontAvailable: setFrontAvailable,
+    };
+    for (const key of Object.keys(set) as (keyof SignConfigExtras)[]) {
+      if (cfg[key] !== undefined) (set[key] as (v: unknown) => void)(cfg[key]);
     }
 
-    if (num(cfg.FhInput)) setFhInput(cfg.FhInput);
-
-    // ===== 指示書（PDF）用 =====
-    if (str(cfg.projectName)) setProjectName(cfg.projectName);
-    if (str(cfg.projectNo)) setProjectNo(cfg.projectNo);
-    if (str(cfg.rev)) setRev(cfg.rev);
-    if (str(cfg.author)) setAuthor(cfg.author);
-    if (str(cfg.checker)) setChecker(cfg.checker);
-    if (str(cfg.approver)) setApprover(cfg.approver);
-
-    if (num(cfg.plateD)) setPlateD(cfg.plateD);
-    if (num(cfg.holeClearance)) setHoleClearance(cfg.holeClearance);
-    if (str(cfg.finishSpec)) setFinishSpec(cfg.finishSpec);
-    if (str(cfg.concSpec)) setConcSpec(cfg.concSpec);
-    if (str(cfg.lawRef)) setLawRef(cfg.lawRef);
-    if (str(cfg.siteNotes)) setSiteNotes(cfg.siteNotes);
+    return issues;
   }
   function handleExportConfig() {
     const blob = new Blob([JSON.stringify(buildConfig(), null, 2)], {
@@ -1709,8 +1180,14 @@ export default function App() {
     r.onload = () => {
       try {
         const cfg = JSON.parse(String(r.result));
-        applyConfig(cfg);
-        alert("設定を読み込みました");
+        const issues = applyConfig(cfg);
+        alert(
+          issues.length > 0
+            ? `設定を読み込みました（確認事項 ${
+                issues.length
+              } 件）\n\n${formatConfigIssues(issues)}`
+            : "設定を読み込みました"
+        );
       } catch (e: any) {
         alert("設定読込エラー: " + (e?.message || String(e)));
       }
@@ -1767,6 +1244,11 @@ export default function App() {
         : "0（自動使用）";
 
     const familyJP = FAMILY_JP_MAP[family] || family;
+    const v0SourceNote = !windV0Entry
+      ? "手入力"
+      : windV0Mismatch
+      ? `手入力：${windV0Source} の表値 ${windV0Entry.V0} m/s と不一致`
+      : `告示1454号：${windV0Source}`;
     const e_ratio = e_f / (footB || 1);
 
     const hefLabel =
@@ -1794,6 +1276,17 @@ export default function App() {
       : "浮上り不可設定";
 
     const fsOtLabelForPdf = `${fsOtAssumptionNote}・${otModeLabel}`;
+    const gravityCheckPdf = (label: string, g: GravityAnchorCheck | null) =>
+      g
+        ? `<br/>${label}：T=${showF(g.Tmax, forceUnit)}, V=${showF(
+            g.V_anchor,
+            forceUnit
+          )}（1本）→ η(${
+            ANCHOR_INTERACTION_LABEL[calc.anchor.interaction]
+          })=${fmt(g.eta, "", 3)}（<span class='${g.eta < 1 ? "ok" : "ng"}'>${
+            g.eta < 1 ? "OK" : "NG"
+          }</span>）`
+        : "";
     const upliftNoteForPdf = allowUpliftOK
       ? "浮上り許容設計：接地圧が片圧（三角分布）となる前提を含む。施工条件・地盤条件の変動に対する余裕を別途確認すること。"
       : "浮上り不可設定：浮上りが生じる場合はNG。基礎寸法・根入れ・荷重条件の見直しを行うこと。";
@@ -1859,8 +1352,151 @@ export default function App() {
         <tr>
           <th>種別</th><td>${signType}</td>
           <th>W×H</th><td>${width}×${height} m</td>
-          <th>風速</th><td>${windV0} m/s</td>
+          <th>風速</th><td>${windV0} m/s（${escapeHtml(v0SourceNote)}）</td>
+        </tr>
+        ${
+          windStripList
+            ? `<tr>
+          <th>高さ方向分割</th>
+          <td colspan='5'>
+            ${windStripList.length}帯（各帯の中央高さで Er(z)、Gf は頂部）:
+            ${windStripList
+              .map((o) => `z=${fmt(o.z, "", 2)}m→${fmt(o.qz, "", 0)}`)
+              .join(", ")} N/m²
+            → 合力 Fw=${showF(
+              calc.wind.Fw_total,
+              forceUnit
+            )}, 合力高さ zR=${fmt(zR, " m", 2)}${
+                zRWarn
+                  ? `<span class='ng'>（看板中心高さ h=${cgHeight} m と異なる）</span>`
+                  : ""
+              }
+          </td>
+        </tr>`
+            : ""
+        }
+        <tr>
+          <th>風力係数 Cf</th>
+          <td colspan='5'>
+            ${
+              cfPick.id === "MANUAL"
+                ? `Cf=${cfPick.Cf}（手入力${
+                    cfMode === "CF_INCLUDES_ALL" ? "・高さ/ガスト等を含む" : ""
+                  }）`
+                : `Cf=${fmt(cfPick.Cf, "", 2)}${
+                    cfPick.areaRatio < 1
+                      ? `（実面積 = 外形 × ε=${fmt(cfPick.areaRatio, "", 2)}）`
+                      : ""
+                  } ← ${escapeHtml(cfPick.label)}：${escapeHtml(
+                    cfPick.ref
+                  )}（${escapeHtml(cfPick.note)}）`
+            }
+          </td>
+        </tr>
+        <tr>
+          <th>設計速度圧 qz</th>
+          <td colspan='5'>
+            ${
+              wind1454
+                ? `告示1454号：区分${wind1454.category}, H=${fmt(
+                    wind1454.H,
+                    " m",
+                    2
+                  )}（Zb=${wind1454.Zb}m, ZG=${wind1454.ZG}m, α=${
+                    wind1454.alpha
+                  }）→ Er=${fmt(wind1454.Er, "", 3)}, Gf=${fmt(
+                    wind1454.Gf,
+                    "",
+                    2
+                  )}, E=Er²·Gf=${fmt(
+                    wind1454.E,
+                    "",
+                    3
+                  )} → qz=0.6·E·V0²·Iw·Kd·Kt=${fmt(qz, " N/m²")}`
+                : `q0=${fmt(q0, " N/m²")} → qz=${fmt(qz, " N/m²")}${
+                    cfMode === "CF_INCLUDES_ALL"
+                      ? "（係数は Cf に含む）"
+                      : `（Kz=${windKz}, Gf=${windGf}, Iw=${windIw}, Kd=${windKd}, Kt=${windKt}）`
+                  }`
+            }
+          </td>
         </tr>
+        ${
+          calc.bracket
+            ? `<tr>
+          <th>ブラケット</th>
+          <td colspan='5'>
+            出幅=${fmt(calc.bracket.projection, " m", 2)}, 離れ=${fmt(
+                calc.bracket.offset,
+                " m",
+                2
+              )} → 腕長=(出幅+離れ)/2=${fmt(calc.bracket.arm, " m", 3)}／
+            ${calc.bracket.qty}基（上下間隔 ${fmt(
+                calc.bracket.spacing,
+                " m",
+                2
+              )}）：${
+                calc.bracket.couple
+                  ? `鉛直荷重の壁面モーメントは上下の偶力（上段${calc.bracket.nUpper}基が引張）`
+                  : "偶力を組めないため鉛直荷重もブラケットの曲げで負担"
+              }${
+                signType === "wall"
+                  ? "、風は壁面直交の引張"
+                  : "、水平力は腕長でブラケット曲げ"
+              }
+          </td>
+        </tr>`
+            : ""
+        }
+        <tr>
+          <th>地震</th>
+          <td colspan='5'>
+            ${
+              calc.seismic.level === "C0"
+                ? `KH=C0=${fmt(calc.seismic.KH, "", 2)}`
+                : `${calc.seismic.label}（取付 ${
+                    rooftop ? "屋上" : `${mountFloor}階`
+                  } / 地上${buildingFloors}階）：KH=Z·Ks=${fmt(
+                    calc.seismic.Z,
+                    "",
+                    2
+                  )}×${fmt(calc.seismic.Ks, "", 1)}=${fmt(
+                    calc.seismic.KH,
+                    "",
+                    2
+                  )}（${escapeHtml(calc.seismic.ref)}）`
+            }${
+      calc.seismic.KV > 0
+        ? `、鉛直 KV=KH/2=${fmt(calc.seismic.KV, "", 2)}（上下両方向 G+K±KV）`
+        : "、鉛直震度なし"
+    } → Fk=${showF(calc.loads.Wself_total * calc.seismic.KH, forceUnit)}（全体）
+          </td>
+        </tr>
+        ${
+          calc.snow.S_total > 0
+            ? `<tr>
+          <th>積雪</th>
+          <td colspan='5'>
+            S=${calc.snow.unitW} N/m²/cm × d=${calc.snow.depth} cm × 上面 ${fmt(
+                width,
+                "",
+                2
+              )}×${fmt(signDepth, "", 2)} m=${showF(
+                calc.snow.S_total,
+                forceUnit
+              )}（全体）${
+                calc.snow.multi
+                  ? "／多雪区域：長期 G+0.7S、短期 G+0.35S+W・G+0.35S+K を追加"
+                  : ""
+              }${
+                signType !== "freestanding"
+                  ? "／袖・壁付は腕長×S を上下ブラケットの偶力で負担"
+                  : ""
+              }
+          </td>
+        </tr>`
+            : ""
+        }
         <tr>
           <th>柱本数</th><td>${nCol} 本</td>
           <th>水平力 Fh（全体）</th><td colspan='3'>${Fh_total_disp}</td>
@@ -1891,15 +1527,16 @@ export default function App() {
         <tr>
           <th>アンカー</th>
           <td colspan='5'>
-            ${anchor.name} × ${anchorQty}
+            ${anchor.name} × ${calc.anchor.n}
             （d=${anchor.d}mm, Ta=${anchor.Ta}, Va=${anchor.Va},
              hef採用=${anchorEmbed}mm, 要件：${hefLabel}）
-            縦間隔=${anchorGauge}mm, 横間隔=${anchorPitch}mm
+            ${escapeHtml(anchorLayoutText())}
           </td>
         </tr>
         <tr>
           <th>プレート</th>
           <td colspan='5'>
+            Bp×Dp=${fmt(plateB, " m", 2)}×${fmt(plateD, " m", 2)},
             柱〜アンカー芯 a=${a_mm} mm, 列間隔=${s_mm} mm,
             採用t=${plateT} mm（t_req=${fmt(t_req, " mm", 1)}）
           </td>
@@ -1911,29 +1548,211 @@ export default function App() {
         </tr>
       </table>
 
+      <h2>荷重ケース・組合せ（柱脚・1本あたり）</h2>
+      <table>
+        <tr><th>ケース</th><th>V</th><th>M</th><th>N</th></tr>
+        ${calc.cases
+          .map(
+            (c) => `<tr>
+          <td>${c.id}（${escapeHtml(c.label)}）</td>
+          <td>${showF(c.V, forceUnit)}</td>
+          <td>${showM(c.M, forceUnit)}</td>
+          <td>${showF(c.N, forceUnit)}</td>
+        </tr>`
+          )
+          .join("")}
+        <tr><th>組合せ</th><th>V</th><th>M</th><th>N</th></tr>
+        ${calc.combos
+          .map(
+            (c) => `<tr>
+          <td>${comboLabel(c)}</td>
+          <td>${showF(c.V, forceUnit)}</td>
+          <td>${showM(c.M, forceUnit)}</td>
+          <td>${showF(c.N, forceUnit)}</td>
+        </tr>`
+          )
+          .join("")}
+      </table>
+      <div class='muted'>
+        許容応力度：長期 F/1.5・短期 F／地盤・コンクリート：入力値を長期、短期は×1.5
+      </div>
+
       <h2>2) 部材・アンカー（1本あたり）</h2>
       <table>
+        ${
+          calc.sectionUnresolved
+            ? `<tr><th>断面性能</th><td colspan='3'><span class='ng'>NG</span>：${escapeHtml(
+                calc.column.section?.name ?? "（未選択）"
+              )} の Z・i・A が不明（仮定値で計算）</td></tr>`
+            : ""
+        }
+        ${
+          calc.anchor.momentOK
+            ? ""
+            : `<tr><th>アンカー配置</th><td colspan='3'><span class='ng'>NG</span>：Σy² = 0 の配置でプレート支圧も効かず、曲げ M に抵抗できない</td></tr>`
+        }
         <tr>
           <th>Fh(設計/本)</th><td>${Fh_design_disp}</td>
           <th>M</th><td>${MpdfStr}</td>
         </tr>
+        ${
+          postLen > 0
+            ? `<tr>
+          <th>柱の風荷重（露出部/本）</th>
+          <td colspan='3'>
+            w=qz·Cf·b=${fmt(qz, "", 0)}×${fmt(postCf.Cf, "", 2)}×${fmt(
+                postWidth,
+                "",
+                3
+              )}=${fmt(w_post, " N/m", 1)}（${escapeHtml(postCf.ref)}）,
+            L=${fmt(postLen, " m", 2)} →
+            Fp=${showF(Fh_post, forceUnit)}, Mp=${
+                forceUnit === "kgf"
+                  ? fmt(toKgf(M_post), " kgf·m", 1)
+                  : fmt(M_post, " N·m", 1)
+              }（M・柱脚せん断 ${showF(V_base, forceUnit)}・基礎に加算）
+          </td>
+        </tr>`
+            : ""
+        }
+        <tr>
+          <th>σb / fb</th><td>${sigmaPdfStr} / ${fmt(
+      sigma_allow,
+      " N/mm²"
+    )}</td>
+          <th>${calc.column.sigma_t > 0 ? "σt / ft" : "σc / fc(λ)"}</th>
+          <td>${
+            calc.column.sigma_t > 0
+              ? `${fmt(calc.column.sigma_t, " N/mm²", 2)} / ${fmt(
+                  calc.column.ft,
+                  " N/mm²"
+                )}`
+              : `${fmt(calc.column.sigma_c, " N/mm²", 2)} / ${fmt(
+                  calc.column.fc,
+                  " N/mm²"
+                )}（A=${fmt(calc.column.A * 1e4, " cm²", 2)}）`
+          }</td>
+        </tr>
+        ${
+          calc.column.ltb
+            ? `<tr>
+          <th>横座屈 fb（長期）</th>
+          <td colspan='3'>
+            lb=${fmt(calc.column.ltb.lb, " m", 2)}, C=${fmt(
+                calc.column.ltb.C,
+                "",
+                2
+              )}, i=${fmt(calc.column.ltb.iT, " mm", 1)}${
+                calc.column.ltb.estimated ? "（iy で代用）" : ""
+              }, h/Af=${
+                calc.column.ltb.Af > 0
+                  ? fmt(calc.column.ltb.h / calc.column.ltb.Af, " mm⁻¹", 4)
+                  : "—"
+              }<br/>
+            fb1=(1−0.4(lb/i)²/(CΛ²))·ft=${fmt(
+              calc.column.ltb.fb1,
+              " N/mm²"
+            )}, fb2=89000/(lb·h/Af)=${fmt(
+                calc.column.ltb.fb2,
+                " N/mm²"
+              )} → fb=${fmt(calc.column.ltb.fbLong, " N/mm²")}（短期×1.5）
+          </td>
+        </tr>`
+            : ""
+        }
+        ${
+          calc.column.sweep
+            ? `<tr>
+          <th>斜め風（2軸曲げ）</th>
+          <td colspan='3'>
+            看板面の風は面に直交、柱の露出部の風 Mp=${showM(
+              M_post,
+              forceUnit
+            )} のみ風向 θ に追従${
+                calc.column.section?.family === "PIPE" ||
+                calc.column.section?.family === "ROUND"
+                  ? "（鋼管・丸鋼は合成モーメント）"
+                  : ""
+              }<br/>
+            θ=${calc.column.theta}°：σb=|M−Mp(1−cosθ)|/Z=${fmt(
+                calc.column.sigma,
+                " N/mm²",
+                2
+              )}, σb'=|Mp·sinθ|/Z'=${fmt(
+                calc.column.sigma_cross,
+                " N/mm²",
+                2
+              )} / fb'=${fmt(calc.column.fb_cross, " N/mm²")}<br/>
+            η（風向別）：${calc.column.sweep
+              .map((o) => `${o.theta}°=${fmt(o.eta, "", 3)}`)
+              .join("、")}
+          </td>
+        </tr>`
+            : ""
+        }
         <tr>
-          <th>σ</th><td>${sigmaPdfStr}</td>
-          <th>η部材</th>
-          <td>
+          <th>η部材（σc/fc+σt/ft+σb/fb${
+            calc.column.sweep ? "+σb'/fb'" : ""
+          }）</th>
+          <td colspan='3'>
             ${fmt(etaColumn, "", 3)}
+            ［${comboText(calc.column.combo)}］
             （<span class='${etaColumn < 1 ? "ok" : "ng"}'>${
       etaColumn < 1 ? "OK" : "NG"
     }</span>）
           </td>
         </tr>
         <tr>
-          <th>λ</th><td>${fmt(lambda, "", 0)} / 200</td>
+          <th>せん断 τ / fs</th>
+          <td colspan='3'>
+            τ=V/Aw=${showF(calc.column.shear.V, forceUnit)} / ${fmt(
+      calc.column.shear.Aw * 1e4,
+      " cm²",
+      2
+    )}=${fmt(calc.column.shear.tau, " N/mm²", 2)} / ${fmt(
+      calc.column.shear.fs,
+      " N/mm²"
+    )} → η=${fmt(calc.column.shear.eta, "", 3)}
+            ［${comboText(calc.column.shear.combo)}］
+            （<span class='${calc.column.shear.eta < 1 ? "ok" : "ng"}'>${
+      calc.column.shear.eta < 1 ? "OK" : "NG"
+    }</span>）
+          </td>
+        </tr>
+        <tr>
+          <th>λ（弱軸）</th><td>${fmt(lambda, "", 0)} / 200</td>
           <th>細長比判定</th>
           <td><span class='${slenderOK ? "ok" : "ng"}'>${
       slenderOK ? "OK" : "NG"
     }</span></td>
         </tr>
+        ${
+          calc.deflection
+            ? `<tr>
+          <th>頂部たわみ（風）</th>
+          <td colspan='3'>
+            δ=F·a²(3H−a)/6EI + 柱の風 + θ·H（EI=${fmt(
+              calc.deflection.EI / 1000,
+              " kN·m²",
+              1
+            )}${calc.deflection.estimatedI ? "、I は Z·h/2 で推定" : ""}${
+                calc.deflection.Ktheta > 0
+                  ? `、θ=M/Kθ=${fmt(calc.deflection.theta, " rad", 4)}`
+                  : ""
+              }）<br/>
+            H=${fmt(calc.deflection.H, " m", 2)}：δ=${fmt(
+                calc.deflection.delta * 1000,
+                " mm",
+                1
+              )} / 許容 ${fmt(calc.deflection.allow * 1000, " mm", 1)}
+            （δ/H=1/${fmt(1 / Math.max(calc.deflection.drift, 1e-9), "", 0)}）
+            （<span class='${calc.deflection.ok ? "ok" : "ng"}'>${
+                calc.deflection.ok ? "OK" : "NG"
+              }</span>）
+          </td>
+        </tr>`
+            : ""
+        }
         <tr>
           <th>アンカー鋼材 η</th>
           <td>${fmt(etaAnchorSteel, "", 3)}</td>
@@ -1941,14 +1760,84 @@ export default function App() {
           <td>${fmt(etaAnchorConc, "", 3)}</td>
         </tr>
         <tr>
-          <th>ｱﾝｶｰ合成 η(linear)</th>
+          <th>コーン破壊（投影面積法）</th>
           <td colspan='3'>
-            ${fmt(etaAnchorLinear, "", 3)}
-            （<span class='${etaAnchorLinear < 1 ? "ok" : "ng"}'>${
-      etaAnchorLinear < 1 ? "OK" : "NG"
+            Ncbg = φ·ψc·ψed·ψec·(A_Nc/A_Nc0)·Nb、Nb = ${
+              ANCHOR_CONC.k
+            }·√Fc·hef'^1.5 = ${showF(calc.anchor.breakout.Nb, forceUnit)}<br/>
+            ${breakoutText()}<br/>
+            Ncbg=${showF(calc.anchor.breakout.Ncbg, forceUnit)}（短期）,
+            ΣT=${showF(calc.anchor.breakout.T_group, forceUnit)}
+            ［${comboText(calc.anchor.combo)}］
+          </td>
+        </tr>
+        <tr>
+          <th>破壊モード別 η（1本あたり）</th>
+          <td colspan='3'>
+            ${calc.anchor.modes
+              .map(
+                (m) =>
+                  `${ANCHOR_MODE_LABEL[m.id]}：${anchorModeText(m)}${
+                    m.id === calc.anchor.governingMode ? " ★支配" : ""
+                  }`
+              )
+              .join("<br/>")}<br/>
+            引抜き Np=8·Abrg·Fc（Abrg=${fmt(
+              calc.anchor.concrete.Abrg,
+              " mm²",
+              0
+            )}${
+      calc.anchor.concrete.AbrgEstimated ? "・ナット寸法から推定" : ""
+    }）, 側方破裂 ca1=${fmt(calc.anchor.concrete.blowout.ca1, " mm", 0)},
+            プライアウト kcp=${calc.anchor.concrete.pryout.kcp},
+            縁端破壊 ca1=${fmt(calc.anchor.concrete.edgeV.ca1, " mm", 0)}
+            （ψed=${fmt(calc.anchor.concrete.edgeV.psiEd, "", 3)}, ψh=${fmt(
+      calc.anchor.concrete.edgeV.psiH,
+      "",
+      3
+    )}, A_Vc/A_Vc0=${fmt(
+      calc.anchor.concrete.edgeV.A_Vc0 > 0
+        ? calc.anchor.concrete.edgeV.A_Vc / calc.anchor.concrete.edgeV.A_Vc0
+        : 0,
+      "",
+      3
+    )}）
+          </td>
+        </tr>
+        <tr>
+          <th>ｱﾝｶｰ合成 η（${
+            ANCHOR_INTERACTION_LABEL[calc.anchor.interaction]
+          }）</th>
+          <td colspan='3'>
+            ${ANCHOR_INTERACTION_FORMULA[calc.anchor.interaction]}
+            （T/Ta・V/Va は引張・せん断それぞれ最小耐力のモード）<br/>
+            ${fmt(etaAnchorCombined, "", 3)}
+            ［${comboText(calc.anchor.combo)}］
+            （<span class='${etaAnchorCombined < 1 ? "ok" : "ng"}'>${
+      etaAnchorCombined < 1 ? "OK" : "NG"
     }</span>）
           </td>
         </tr>
+        ${
+          calc.gravity
+            ? `<tr>
+          <th>自重偏心（袖）</th>
+          <td colspan='3'>
+            M=W×腕長=${showF(calc.gravity.W, forceUnit)}×${fmt(
+                calc.gravity.arm,
+                " m",
+                3
+              )}=${showM(calc.gravity.M, forceUnit)}（全体）${
+                calc.gravity.couple
+                  ? ` → 上段1基の偶力引張 P=${showF(calc.gravity.P, forceUnit)}`
+                  : "（ブラケット曲げで負担）"
+              }, 1基の鉛直せん断=${showF(calc.gravity.V, forceUnit)}
+            ${gravityCheckPdf("自重のみ（長期）", calc.gravity.G)}
+            ${gravityCheckPdf("自重＋風（短期）", calc.gravity.GW)}
+          </td>
+        </tr>`
+            : ""
+        }
         <tr>
           <th>埋込み長さ hef</th>
           <td colspan='3'>
@@ -1959,9 +1848,27 @@ export default function App() {
         <tr>
           <th>ベースt</th>
           <td colspan='3'>
-            ${plateT}mm ≥ ${fmt(t_req, " mm", 1)} →
+            ${plateT}mm ≥ ${fmt(t_req, " mm", 1)}
+            ［${comboText(calc.plate.combo)}］ →
             <span class='${plateOK ? "ok" : "ng"}'>${
       plateOK ? "OK" : "NG"
+    }</span>
+          </td>
+        </tr>
+        <tr>
+          <th>コンクリート支圧</th>
+          <td colspan='3'>
+            N=${showF(bearing.N, forceUnit)}, M=${showM(bearing.M, forceUnit)}
+            ［${comboText(bearing.combo)}］：${
+      BASE_PLATE_MODE_LABEL[bearing.mode]
+    }${bearing.mode === "partial" ? `, xn=${fmt(bearing.xn, " mm", 0)}` : ""}
+            → σc=${fmt(bearing.sigma_c, " N/mm²", 2)} ≤ fc=${fmt(
+      bearing.fc,
+      " N/mm²",
+      2
+    )} →
+            <span class='${bearing.ok ? "ok" : "ng"}'>${
+      bearing.ok ? "OK" : "NG"
     }</span>
           </td>
         </tr>
@@ -2006,7 +1913,9 @@ export default function App() {
         </tr>
         <tr>
         <th>転倒 FS</th>
-        <td>${fmt(FS_OT, "", 2)} ≥ ${reqFS_OT}（${fsOtLabelForPdf}）</td>
+        <td>${fmt(FS_OT, "", 2)} ≥ ${reqFS_OT}（${fsOtLabelForPdf}）${
+      fndGov ? `［${comboText(fndGov.OT)}］` : ""
+    }</td>
         <th>判定</th>
         <td><span class='${OT_OK ? "ok" : "ng"}'>${
       OT_OK ? "OK" : "NG"
@@ -2017,7 +1926,7 @@ export default function App() {
       <th>滑動 FS</th>
       <td>${fmt(FS_SL, "", 2)} ≥ ${reqFS_SL}${
       fsSlAssumptionNote ? `（${escapeHtml(fsSlAssumptionNote)}）` : ""
-    }</td>
+    }${fndGov ? `［${comboText(fndGov.SL)}］` : ""}</td>
       <th>判定</th>
       <td><span class='${SL_OK ? "ok" : "ng"}'>${
       SL_OK ? "OK" : "NG"
@@ -2027,7 +1936,7 @@ export default function App() {
           <th>支持力</th>
           <td>σmax=${fmt(sigma_max / 1000, " kPa")} ≤ ${qa_allow_final.toFixed(
       0
-    )} kPa</td>
+    )} kPa${fndGov ? `［${comboText(fndGov.bearing)}］` : ""}</td>
           <th>判定</th>
           <td><span class='${bearingOK ? "ok" : "ng"}'>${
       bearingOK ? "OK" : "NG"
@@ -2135,226 +2044,34 @@ export default function App() {
   // ===== AI自動計算：plate t を選択肢へ丸め＋基礎 B/D 独立最適化 =====
   function handleAIAutoCalc() {
     try {
-      // 1) 部材の自動選定
-      const sameFamily = sections.filter((s) => s.family === family);
-      const sorted = [...sameFamily].sort((a, b) => {
-        const Za = bendAxis === "x" ? a.Zx_cm3 ?? 0 : a.Zy_cm3 ?? 0;
-        const Zb = bendAxis === "x" ? b.Zx_cm3 ?? 0 : b.Zy_cm3 ?? 0;
-        return Za - Zb;
-      });
-
-      let pickedSection = sameFamily[0] ?? sections[0];
-
-      for (const s of sorted) {
-        const Zx_m3 = (s.Zx_cm3 ?? 50) * 1e-6;
-        const Zy_m3 = (s.Zy_cm3 ?? 50) * 1e-6;
-        const ix_m = (s.ix_cm ?? 3) * 0.01;
-        const iy_m = (s.iy_cm ?? 3) * 0.01;
-        const Z_cand = bendAxis === "x" ? Zx_m3 : Zy_m3;
-        const r_cand = bendAxis === "x" ? ix_m : iy_m;
-
-        const sigma_cand = M / Math.max(Z_cand, 1e-12) / 1e6;
-        const eta_cand = sigma_cand / sigma_allow;
-        const lambda_cand = (K * L) / Math.max(r_cand, 1e-6);
-
-        pickedSection = s;
-        if (eta_cand < 1 && lambda_cand <= 200) break;
-      }
-      if (pickedSection) setSectionName(pickedSection.name);
-
-      // 2) アンカー種類＋本数の自動選定（1本あたりFh）
-      const qtyCandidates = [4, 6, 8, 10];
-      const anchorCandidates = [...anchorsForUI].sort((a, b) => a.Ta - b.Ta);
-
-      let bestAnchor = anchor;
-      let bestQty = anchorQty;
-      let bestEmbed = anchorEmbed;
-      let foundAnchorOK = false;
-
-      for (const ac of anchorCandidates) {
-        const d_local = ac.d;
-        const minEdge_local = ac.min_e ?? Math.round(1.5 * d_local);
-        const minSpace_local = ac.min_s ?? Math.round(3 * d_local);
-        const edge1OK_c = edge1 >= minEdge_local;
-        const edge2OK_c =
-          signType === "projecting" ? true : edge2 >= minEdge_local;
-        const spacingOK_c = spacing >= minSpace_local;
-        if (!edge1OK_c || !edge2OK_c || !spacingOK_c) continue;
-
-        const { list } = computeAnchorTensions(M, anchorGauge, anchorPitch);
-        const Tmax_c = Math.max(...list.map((o) => Math.max(0, o.T)), 0);
-
-        const hef_try =
-          signType === "freestanding"
-            ? d_local * 20
-            : ac.hefRec || d_local * 10;
-
-        const Ta_conc_c =
-          FcNum > 0 && hef_try > 0
-            ? ANCHOR_CONC.k *
-              Math.sqrt(FcNum) *
-              Math.pow(hef_try, 1.5) *
-              ANCHOR_CONC.phi *
-              ANCHOR_CONC.psiEdge *
-              ANCHOR_CONC.psiCrack
-            : 0;
-
-        const Ta_eff_c = Math.min(ac.Ta, Ta_conc_c);
-
-        const ANCHOR_CALC_QTY_FIXED = 4; // ★簡易版は常に4本扱い
-
-        for (const q_local of qtyCandidates) {
-          const V_c = Fh / ANCHOR_CALC_QTY_FIXED;
-
-          const etaA =
-            (Ta_eff_c > 0 ? Tmax_c / Ta_eff_c : Infinity) +
-            (ac.Va > 0 ? V_c / ac.Va : 0);
-
-          if (etaA < 1) {
-            bestAnchor = ac;
-            bestQty = q_local; // 表示上の本数は更新してよい（計算は固定）
-            bestEmbed = hef_try;
-            foundAnchorOK = true;
-            break;
-          }
-        }
-
-        if (foundAnchorOK) break;
-      }
-
-      setAnchor(bestAnchor);
-      setAnchorQty(bestQty);
-
-      const minHefFinal =
-        signType === "freestanding"
-          ? bestAnchor.d * 20
-          : bestAnchor.hefRec || bestAnchor.d * 10;
-      setAnchorEmbed(Math.max(bestEmbed, minHefFinal));
-
-      // 3) ベースプレート t（選択肢に丸め）
-      const { list: list2 } = computeAnchorTensions(
-        M,
-        anchorGauge,
-        anchorPitch
-      );
-      const T_row2 = Math.max(
-        ...list2.filter((o) => o.y > 0).map((o) => o.T),
-        0
-      );
-      const t_req_calc = computePlateThickness(
-        Math.max(T_row2, 0),
-        Math.max(10, a_clear),
-        Math.max(40, anchorPitch),
-        plateFy
-      );
-      const adoptT = snapPlateT(t_req_calc + 2);
-      setPlateT(adoptT);
-
-      // 4) 基礎（自立のみ）B・D・H を最適化（目的関数モード切替）※1本あたりで判定
-      if (signType === "freestanding") {
-        const DEFAULT_FOOT = { B: 0.8, D: 0.8, H: 0.8 };
-
-        let bestB = DEFAULT_FOOT.B;
-        let bestD = DEFAULT_FOOT.D;
-        let bestH = DEFAULT_FOOT.H;
-
-        let found = false;
-
-        let bestScore =
-          foundationOptMode === "VOL"
-            ? DEFAULT_FOOT.B * DEFAULT_FOOT.D * DEFAULT_FOOT.H
-            : DEFAULT_FOOT.B * 100 + DEFAULT_FOOT.D * 10 + DEFAULT_FOOT.H;
-
-        {
-          const r0 = evalFoundation(
-            DEFAULT_FOOT.B,
-            DEFAULT_FOOT.D,
-            DEFAULT_FOOT.H
-          );
-          if (r0.ok) found = true;
-        }
-
-        for (let B = 0.6; B <= 2.0; B += 0.05) {
-          for (let D = 0.6; D <= 2.0; D += 0.05) {
-            for (let H = 0.4; H <= 2.0; H += 0.05) {
-              const r = evalFoundation(B, D, H);
-              if (!r.ok) continue;
-
-              const score =
-                foundationOptMode === "VOL" ? r.volume : B * 100 + D * 10 + H;
-
-              if (!found || score < bestScore) {
-                bestScore = score;
-                bestB = B;
-                bestD = D;
-                bestH = H;
-                found = true;
-              }
-            }
-          }
-        }
-
-        if (found) {
-          setFootB(Number(bestB.toFixed(2)));
-          setFootD(Number(bestD.toFixed(2)));
-          setFootH(Number(bestH.toFixed(2)));
-        } else {
-          let bestNear: any = null;
-          for (let B = 0.6; B <= 2.0; B += 0.05) {
-            for (let D = 0.6; D <= 2.0; D += 0.05) {
-              for (let H = 0.4; H <= 2.0; H += 0.05) {
-                const r = evalFoundation(B, D, H);
-
-                const rateOT = r.FS_OT / Math.max(reqFS_OT, 1e-9);
-                const rateSL = r.FS_SL / Math.max(reqFS_SL, 1e-9);
-                const rateBE =
-                  (r.qa_allow_final * 1000) / Math.max(r.sigma_max, 1e-9);
-
-                const rateMin = Math.min(rateOT, rateSL, rateBE);
-
-                const sizePenalty =
-                  foundationOptMode === "VOL"
-                    ? B * D * H
-                    : B * 100 + D * 10 + H;
-
-                const scoreNear = rateMin * 100000 - sizePenalty;
-
-                if (!bestNear || scoreNear > bestNear.scoreNear) {
-                  bestNear = { B, D, H, r, scoreNear };
-                }
-              }
-            }
-          }
-
-          if (bestNear) {
-            setFootB(Number(bestNear.B.toFixed(2)));
-            setFootD(Number(bestNear.D.toFixed(2)));
-            setFootH(Number(bestNear.H.toFixed(2)));
-
-            alert(
-              "AI基礎最適化：OK解が見つかりませんでした。\n" +
-                `ただし、最も近い案へ更新しました（allowUpliftOK=${
-                  allowUpliftOK ? "ON" : "OFF"
-                }）。\n` +
-                `B=${bestNear.B.toFixed(2)} D=${bestNear.D.toFixed(
-                  2
-                )} H=${bestNear.H.toFixed(2)}\n` +
-                `達成度(min)=${Math.min(
-                  bestNear.r.FS_OT / Math.max(reqFS_OT, 1e-9),
-                  bestNear.r.FS_SL / Math.max(reqFS_SL, 1e-9),
-                  (bestNear.r.qa_allow_final * 1000) /
-                    Math.max(bestNear.r.sigma_max, 1e-9)
-                ).toFixed(3)}\n` +
-                "不足項目（転倒/滑動/支持力）を結果欄で確認してください。"
-            );
-          }
-        }
+      // 部材 → アンカー → プレート t → 基礎（自立）の順に、各候補を calculateSign で判定
+      const {
+        input: next,
+        result,
+        foundation,
+      } = autoSelect(signInput, { foundationOptMode, embedDepthAuto });
+      applySignInput(next);
+
+      if (foundation && !foundation.found) {
+        alert(
+          "AI基礎最適化：OK解が見つかりませんでした。\n" +
+            `ただし、最も近い案へ更新しました（allowUpliftOK=${
+              allowUpliftOK ? "ON" : "OFF"
+            }）。\n` +
+            `B=${next.footB.toFixed(2)} D=${next.footD.toFixed(
+              2
+            )} H=${next.footH.toFixed(2)}\n` +
+            `達成度(min)=${(1 / foundation.ratio).toFixed(3)}\n` +
+            "不足項目（転倒/滑動/支持力）を結果欄で確認してください。"
+        );
       }
 
       alert(
         "AI自動計算を実行しました。\n" +
-          "総合判定がOKに近づくよう、部材・アンカー（埋込み含む）・基礎寸法・プレートt（採用品へ丸め）を自動調整しました。\n" +
-          "条件によってはNGが残る場合があります。"
+          "部材・アンカー（埋込み含む）・基礎寸法・プレートt（採用品へ丸め）を、全組合せの検定（たわみ・支圧を含む）で自動選定しました。\n" +
+          (result.overallOK
+            ? "総合判定：OK"
+            : "総合判定：NG が残っています（結果欄で確認してください）。")
       );
     } catch (e: any) {
       console.error(e);
@@ -2629,8 +2346,9 @@ export default function App() {
               </span>
 
               <span>η部材={fmt(etaColumn, "", 3)}</span>
+              <span>ηせん断={fmt(calc.column.shear.eta, "", 3)}</span>
               <span>λ={fmt(lambda, "", 0)} / 200</span>
-              <span>ηｱﾝｶｰ={fmt(etaAnchorLinear, "", 3)}</span>
+              <span>ηｱﾝｶｰ={fmt(etaAnchorCombined, "", 3)}</span>
               <span>ベースt {plateOK ? "OK" : "NG"}</span>
               <span>
                 設計Fh（全体）={showF(Fh_total, forceUnit)} / （1本）=
@@ -2856,6 +2574,24 @@ export default function App() {
                     <option value="x">x（強軸側に曲げ）</option>
                     <option value="y">y（弱軸側に曲げ）</option>
                   </select>
+                  <label
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: 6,
+                      marginTop: 6,
+                      fontSize: 12,
+                    }}
+                    title="風向 0〜90°：看板面の風は面に直交のまま、柱の露出部の風を両軸に分けて σb/fb + σb'/fb' を検定"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={windSweep}
+                      disabled={signType !== "freestanding"}
+                      onChange={(e) => setWindSweep(e.target.checked)}
+                    />
+                    <span>斜め風（2軸曲げ）</span>
+                  </label>
                 </div>
                 <div>
                   <label>柱本数（postQty）</label>
@@ -2864,6 +2600,8 @@ export default function App() {
                     min={1}
                     step={1}
                     value={postQty}
+                    disabled={signType !== "freestanding"}
+                    title="袖・壁付はブラケット基数で分担"
                     onChange={(e) =>
                       setPostQty(
                         Math.max(1, Math.floor(Number(e.target.value)))
@@ -2964,10 +2702,50 @@ export default function App() {
                   <Save size={12} />
                   現在DBを書出
                 </button>
+                <button
+                  onClick={handleCompleteSections}
+                  title="A・I・Z・i・J・w など未入力の項目を断面名の寸法から算出"
+                  style={{
+                    border: "1px solid #d1d5db",
+                    borderRadius: 4,
+                    padding: "2px 6px",
+                    display: "inline-flex",
+                    alignItems: "center",
+                    gap: 4,
+                    background: "#fff",
+                  }}
+                >
+                  <Calculator size={12} />
+                  寸法から補完
+                </button>
                 <span style={{ color: "#6b7280" }}>
-                  schema: family/name/Zx_cm3/Zy_cm3/ix_cm/iy_cm
+                  schema:
+                  family/name/Zx_cm3/Zy_cm3/ix_cm/iy_cm/Aw_cm2/Af_cm2/iT_cm
                 </span>
               </div>
+              {sectionAudit.length > 0 && (
+                <div style={{ marginTop: 4, fontSize: 11, color: "#b45309" }}>
+                  ⚠ 断面名の寸法からの値と 15% 以上異なる入力値（
+                  {sectionAudit.length}件）：
+                  {sectionAudit
+                    .slice(0, 5)
+                    .map(
+                      (o) =>
+                        `${o.name} ${o.key}=${o.typed}（寸法から ${fmt(
+                          o.computed,
+                          "",
+                          2
+                        )}、${o.diff > 0 ? "+" : ""}${fmt(
+                          o.diff * 100,
+                          "%",
+                          0
+                        )}）`
+                    )
+                    .join("、")}
+                  {sectionAudit.length > 5 &&
+                    ` ほか${sectionAudit.length - 5}件`}
+                </div>
+              )}
             </fieldset>
 
             {/* geometry & loads */}
@@ -3036,6 +2814,53 @@ export default function App() {
                   step={1}
                 />
 
+                {/* V0 主要都市表（告示1454号の抜粋・オフライン） */}
+                <div style={{ fontSize: 12 }}>
+                  <label>V0 主要都市（告示1454号の抜粋）</label>
+                  <input
+                    list="windV0-table"
+                    value={windV0Query}
+                    placeholder="例：大阪"
+                    onChange={(e) => {
+                      const v = e.target.value;
+                      setWindV0Query(v);
+                      const hit = findWindV0(v);
+                      if (hit) {
+                        setWindV0(hit.V0);
+                        setWindV0Source(v);
+                      } else if (!v.trim()) {
+                        setWindV0Source("");
+                      }
+                    }}
+                    style={{
+                      width: "100%",
+                      borderRadius: 4,
+                      border: "1px solid #d1d5db",
+                      padding: "2px 4px",
+                    }}
+                  />
+                  <datalist id="windV0-table">
+                    {searchWindV0(windV0Query).map((e) => (
+                      <option key={windV0Label(e)} value={windV0Label(e)}>
+                        {`V0=${e.V0} m/s`}
+                      </option>
+                    ))}
+                  </datalist>
+                  <div
+                    style={{
+                      marginTop: 2,
+                      fontSize: 10,
+                      color: windV0Mismatch ? "#b91c1c" : "#6b7280",
+                    }}
+                  >
+                    {!windV0Entry
+                      ? "出典：手入力（表は主要都市のみ。他の地域・合併市は告示で確認）"
+                      : windV0Mismatch
+                      ? `表値 ${windV0Entry.V0} m/s と不一致（${windV0Source}）`
+                      : `出典：${windV0Source}`}
+                  </div>
+                </div>
+
                 {/* Cfの扱い（重要） */}
                 <div style={{ fontSize: 12 }}>
                   <label>Cfの扱い（重要）</label>
@@ -3056,14 +2881,67 @@ export default function App() {
                   </div>
                 </div>
 
-                <NumInput
-                  label="形状係数 Cf"
-                  unit="-"
-                  value={shapeCf}
-                  onChange={setShapeCf}
-                  min={0.5}
-                  step={0.1}
-                />
+                {cfMode === "SHAPE_ONLY" && (
+                  <div style={{ fontSize: 12 }}>
+                    <label>Cf カタログ</label>
+                    <select
+                      style={{ width: "100%" }}
+                      value={cfEntry}
+                      onChange={(e) => setCfEntry(e.target.value as CfEntryId)}
+                    >
+                      <option value="MANUAL">手入力</option>
+                      {CF_CATALOG.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.label}
+                        </option>
+                      ))}
+                    </select>
+                    {cfPick.ref && (
+                      <div
+                        style={{ marginTop: 2, fontSize: 10, color: "#6b7280" }}
+                      >
+                        {cfPick.ref}（{cfPick.note}）
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {cfPick.id === "MANUAL" ? (
+                  <NumInput
+                    label="形状係数 Cf"
+                    unit="-"
+                    value={shapeCf}
+                    onChange={setShapeCf}
+                    min={0.5}
+                    step={0.1}
+                  />
+                ) : (
+                  <ReadOnly
+                    label="形状係数 Cf（カタログ）"
+                    value={
+                      cfPick.areaRatio < 1
+                        ? `${fmt(cfPick.Cf, "", 2)}（実面積 ×${fmt(
+                            cfPick.areaRatio,
+                            "",
+                            2
+                          )}）`
+                        : fmt(cfPick.Cf, "", 2)
+                    }
+                  />
+                )}
+
+                {(cfPick.id === "PERFORATED" ||
+                  cfPick.id === "LATTICE_FLAT" ||
+                  cfPick.id === "LATTICE_ROUND") && (
+                  <NumInput
+                    label="開口率"
+                    unit="-"
+                    value={cfPorosity}
+                    onChange={(v) => setCfPorosity(Math.min(1, Math.max(0, v)))}
+                    min={0}
+                    step={0.05}
+                  />
+                )}
 
                 <ReadOnly label="設計速度圧 qz" value={fmt(qz, " N/m²")} />
 
@@ -3076,14 +2954,16 @@ export default function App() {
                   step={0.1}
                 />
 
-                <NumInput
-                  label="地震係数 C0"
-                  unit="-"
-                  value={seismicC0}
-                  onChange={setSeismicC0}
-                  min={0}
-                  step={0.05}
-                />
+                {calc.seismic.level === "C0" && (
+                  <NumInput
+                    label="地震係数 C0"
+                    unit="-"
+                    value={seismicC0}
+                    onChange={setSeismicC0}
+                    min={0}
+                    step={0.05}
+                  />
+                )}
               </div>
 
               {/* 下段（風荷重係数：Kz〜Kt） */}
@@ -3108,58 +2988,296 @@ export default function App() {
                   ）。
                 </div>
               ) : (
-                /* ===== Cf=形状のみの場合：Kz〜Kt を入力 ===== */
+                /* ===== Cf=形状のみの場合：Kz・Gf（または告示1454号の E）と Iw〜Kt ===== */
                 <div
                   style={{
-                    display: "grid",
-                    gridTemplateColumns: "repeat(5,minmax(0,1fr))",
-                    gap: 8,
-                    marginTop: 8,
-                    gridColumn: "1 / -1",
+                    display: "grid",
+                    gridTemplateColumns: "repeat(5,minmax(0,1fr))",
+                    gap: 8,
+                    marginTop: 8,
+                    gridColumn: "1 / -1",
+                  }}
+                >
+                  <div style={{ fontSize: 12 }}>
+                    <label>風圧の算定</label>
+                    <select
+                      style={{ width: "100%" }}
+                      value={windMode}
+                      onChange={(e) => setWindMode(e.target.value as WindMode)}
+                    >
+                      <option value="MANUAL">Kz・Gf を手入力</option>
+                      <option value="CODE">告示1454号から算定</option>
+                    </select>
+                  </div>
+                  {windMode === "CODE" ? (
+                    <>
+                      <div style={{ fontSize: 12 }}>
+                        <label>地表面粗度区分</label>
+                        <select
+                          style={{ width: "100%" }}
+                          value={terrainCategory}
+                          onChange={(e) =>
+                            setTerrainCategory(
+                              e.target.value as TerrainCategory
+                            )
+                          }
+                        >
+                          <option value="I">I（極めて平坦）</option>
+                          <option value="II">II（田園・海岸）</option>
+                          <option value="III">III（一般市街地）</option>
+                          <option value="IV">IV（大都市中心部）</option>
+                        </select>
+                      </div>
+                      <ReadOnly
+                        label="頂部高さ H（Zb / ZG / α）"
+                        value={
+                          wind1454
+                            ? `${fmt(wind1454.H, " m", 2)}（${wind1454.Zb} / ${
+                                wind1454.ZG
+                              } / ${wind1454.alpha}）`
+                            : "—"
+                        }
+                      />
+                      <ReadOnly
+                        label="Er / Gf"
+                        value={
+                          wind1454
+                            ? `${fmt(wind1454.Er, "", 3)} / ${fmt(
+                                wind1454.Gf,
+                                "",
+                                2
+                              )}`
+                            : "—"
+                        }
+                      />
+                      <ReadOnly
+                        label="E = Er²·Gf"
+                        value={wind1454 ? fmt(wind1454.E, "", 3) : "—"}
+                      />
+                      <div>
+                        <NumInput
+                          label="高さ方向分割数（0=分割なし）"
+                          unit="帯"
+                          value={windStrips}
+                          onChange={(v) =>
+                            setWindStrips(Math.max(0, Math.floor(v) || 0))
+                          }
+                          min={0}
+                          step={1}
+                        />
+                        {windStripList && (
+                          <div
+                            style={{
+                              fontSize: 10,
+                              color: zRWarn ? "#b45309" : "#6b7280",
+                            }}
+                          >
+                            合力高さ zR={fmt(zR, " m", 2)}
+                            {zRWarn &&
+                              `（看板中心高さ h=${cgHeight} m と異なる）`}
+                          </div>
+                        )}
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <NumInput
+                        label="高さ係数 Kz"
+                        unit="-"
+                        value={windKz}
+                        onChange={setWindKz}
+                        min={0.5}
+                        step={0.05}
+                      />
+                      <NumInput
+                        label="ガスト係数 Gf"
+                        unit="-"
+                        value={windGf}
+                        onChange={setWindGf}
+                        min={0.5}
+                        step={0.05}
+                      />
+                    </>
+                  )}
+                  <NumInput
+                    label="重要度係数 Iw"
+                    unit="-"
+                    value={windIw}
+                    onChange={setWindIw}
+                    min={0.5}
+                    step={0.05}
+                  />
+                  <NumInput
+                    label="風向係数 Kd"
+                    unit="-"
+                    value={windKd}
+                    onChange={setWindKd}
+                    min={0.5}
+                    step={0.05}
+                  />
+                  <NumInput
+                    label="地形係数 Kt"
+                    unit="-"
+                    value={windKt}
+                    onChange={setWindKt}
+                    min={0.5}
+                    step={0.05}
+                  />
+                </div>
+              )}
+
+              {/* 地震段（袖・壁付は建物付属物の震度を選択可） */}
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "repeat(6,minmax(0,1fr))",
+                  gap: 8,
+                  marginTop: 4,
+                }}
+              >
+                <div style={{ fontSize: 12 }}>
+                  <label>地震の震度</label>
+                  <select
+                    style={{ width: "100%" }}
+                    value={signType === "freestanding" ? "C0" : seismicMode}
+                    disabled={signType === "freestanding"}
+                    onChange={(e) =>
+                      setSeismicMode(e.target.value as SeismicMode)
+                    }
+                  >
+                    <option value="C0">C0 手入力</option>
+                    <option value="APPENDAGE">建物付属物（取付位置）</option>
+                  </select>
+                </div>
+                {calc.seismic.level !== "C0" && (
+                  <>
+                    <NumInput
+                      label="地域係数 Z"
+                      unit="-"
+                      value={seismicZ}
+                      onChange={setSeismicZ}
+                      min={0.7}
+                      step={0.1}
+                    />
+                    <NumInput
+                      label="取付階（0=地階）"
+                      unit="階"
+                      value={mountFloor}
+                      onChange={(v) =>
+                        setMountFloor(Math.max(0, Math.floor(v) || 0))
+                      }
+                      min={0}
+                      step={1}
+                    />
+                    <NumInput
+                      label="建物の地上階数"
+                      unit="階"
+                      value={buildingFloors}
+                      onChange={(v) =>
+                        setBuildingFloors(Math.max(1, Math.floor(v) || 1))
+                      }
+                      min={1}
+                      step={1}
+                    />
+                    <label
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: 6,
+                        fontSize: 12,
+                      }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={rooftop}
+                        onChange={(e) => setRooftop(e.target.checked)}
+                      />
+                      <span>屋上設置</span>
+                    </label>
+                  </>
+                )}
+                <label
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 6,
+                    fontSize: 12,
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={seismicVertical}
+                    onChange={(e) => setSeismicVertical(e.target.checked)}
+                  />
+                  <span>鉛直震度（KH/2）</span>
+                </label>
+                <ReadOnly
+                  label={`KH / KV（${calc.seismic.label}）`}
+                  value={`${fmt(calc.seismic.KH, "", 2)} / ${fmt(
+                    calc.seismic.KV,
+                    "",
+                    2
+                  )}`}
+                />
+              </div>
+
+              {/* 積雪段（看板上面） */}
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "repeat(5,minmax(0,1fr))",
+                  gap: 8,
+                  marginTop: 4,
+                }}
+              >
+                <NumInput
+                  label="垂直積雪量 d（0=積雪なし）"
+                  unit="cm"
+                  value={snowDepth}
+                  onChange={setSnowDepth}
+                  min={0}
+                  step={10}
+                />
+                <NumInput
+                  label="積雪の単位荷重"
+                  unit="N/m²/cm"
+                  value={snowUnitW}
+                  onChange={setSnowUnitW}
+                  min={0}
+                  step={1}
+                />
+                <NumInput
+                  label="看板の奥行（上面）"
+                  unit="m"
+                  value={signDepth}
+                  onChange={setSignDepth}
+                  min={0}
+                  step={0.05}
+                />
+                <label
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 6,
+                    fontSize: 12,
                   }}
                 >
-                  <NumInput
-                    label="高さ係数 Kz"
-                    unit="-"
-                    value={windKz}
-                    onChange={setWindKz}
-                    min={0.5}
-                    step={0.05}
-                  />
-                  <NumInput
-                    label="ガスト係数 Gf"
-                    unit="-"
-                    value={windGf}
-                    onChange={setWindGf}
-                    min={0.5}
-                    step={0.05}
-                  />
-                  <NumInput
-                    label="重要度係数 Iw"
-                    unit="-"
-                    value={windIw}
-                    onChange={setWindIw}
-                    min={0.5}
-                    step={0.05}
-                  />
-                  <NumInput
-                    label="風向係数 Kd"
-                    unit="-"
-                    value={windKd}
-                    onChange={setWindKd}
-                    min={0.5}
-                    step={0.05}
-                  />
-                  <NumInput
-                    label="地形係数 Kt"
-                    unit="-"
-                    value={windKt}
-                    onChange={setWindKt}
-                    min={0.5}
-                    step={0.05}
+                  <input
+                    type="checkbox"
+                    checked={snowMulti}
+                    onChange={(e) => setSnowMulti(e.target.checked)}
                   />
-                </div>
-              )}
+                  <span>多雪区域（長期 G+0.7S 等を追加）</span>
+                </label>
+                <ReadOnly
+                  label="積雪荷重 S（全体）"
+                  value={`${showF(calc.snow.S_total, forceUnit)}（${fmt(
+                    calc.snow.topArea,
+                    " m²",
+                    2
+                  )}）`}
+                />
+              </div>
 
               {/* Fh段（そのまま） */}
               <div
@@ -3246,7 +3364,120 @@ export default function App() {
                   min={1}
                   step={0.1}
                 />
+                <NumInput
+                  label="横座屈長さ lb（0 = L）"
+                  unit="m"
+                  value={Lb}
+                  onChange={setLb}
+                  min={0}
+                  step={0.1}
+                />
+                <NumInput
+                  label="モーメント勾配補正 C"
+                  unit="-"
+                  value={Cb}
+                  onChange={setCb}
+                  min={1}
+                  max={2.3}
+                  step={0.05}
+                />
               </div>
+
+              {/* 頂部たわみ（自立） */}
+              {signType === "freestanding" && (
+                <div
+                  style={{
+                    display: "grid",
+                    gridTemplateColumns: "repeat(4,minmax(0,1fr))",
+                    gap: 8,
+                    marginTop: 8,
+                  }}
+                >
+                  <NumInput
+                    label="許容たわみ H/"
+                    unit="-"
+                    value={deflRatio}
+                    onChange={setDeflRatio}
+                    min={1}
+                    step={10}
+                  />
+                  <NumInput
+                    label="許容たわみ（直接指定、0 = H/比）"
+                    unit="mm"
+                    value={deflAllowMm}
+                    onChange={setDeflAllowMm}
+                    min={0}
+                    step={1}
+                  />
+                  <NumInput
+                    label="柱脚回転剛性 Kθ（0 = 固定）"
+                    unit="kN·m/rad"
+                    value={baseRotStiff}
+                    onChange={setBaseRotStiff}
+                    min={0}
+                    step={100}
+                  />
+                </div>
+              )}
+
+              {/* ブラケット（袖・壁付） */}
+              {signType !== "freestanding" && (
+                <div
+                  style={{
+                    display: "grid",
+                    gridTemplateColumns: "repeat(5,minmax(0,1fr))",
+                    gap: 8,
+                    marginTop: 4,
+                  }}
+                >
+                  <NumInput
+                    label={
+                      signType === "projecting"
+                        ? "出幅（壁面〜看板外端）"
+                        : "出幅（壁面〜看板前面）"
+                    }
+                    unit="m"
+                    value={bracketProjection}
+                    onChange={setBracketProjection}
+                    min={0}
+                    step={0.05}
+                  />
+                  <NumInput
+                    label={
+                      signType === "projecting"
+                        ? "離れ（壁面〜看板内端）"
+                        : "離れ（壁面〜看板背面）"
+                    }
+                    unit="m"
+                    value={panelOffset}
+                    onChange={setPanelOffset}
+                    min={0}
+                    step={0.05}
+                  />
+                  <NumInput
+                    label="ブラケット基数"
+                    unit="基"
+                    value={bracketQty}
+                    onChange={(v) =>
+                      setBracketQty(Math.max(1, Math.floor(v) || 1))
+                    }
+                    min={1}
+                    step={1}
+                  />
+                  <NumInput
+                    label="上下ブラケット間隔"
+                    unit="m"
+                    value={bracketSpacing}
+                    onChange={setBracketSpacing}
+                    min={0}
+                    step={0.05}
+                  />
+                  <ReadOnly
+                    label="腕長（壁面〜看板重心）"
+                    value={calc.bracket ? fmt(calc.bracket.arm, " m", 3) : "—"}
+                  />
+                </div>
+              )}
             </details>
 
             {/* 支持・アンカー・基礎 */}
@@ -3309,15 +3540,119 @@ export default function App() {
                   </select>
 
                   <div style={{ marginTop: 4 }}>
-                    <label>アンカー本数</label>
-                    <input
-                      type="number"
-                      min={2}
-                      step={1}
-                      value={anchorQty}
-                      onChange={(e) => setAnchorQty(Number(e.target.value))}
+                    <label>アンカー配置</label>
+                    <select
                       style={{ width: "100%" }}
-                    />
+                      value={anchorPattern}
+                      onChange={(e) =>
+                        setAnchorPattern(e.target.value as AnchorPattern)
+                      }
+                    >
+                      {(
+                        Object.keys(ANCHOR_PATTERN_LABEL) as AnchorPattern[]
+                      ).map((p) => (
+                        <option key={p} value={p}>
+                          {ANCHOR_PATTERN_LABEL[p]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {anchorPattern === "CIRCLE" && (
+                    <div style={{ marginTop: 4 }}>
+                      <label>アンカー本数</label>
+                      <input
+                        type="number"
+                        min={3}
+                        step={1}
+                        value={anchorQty}
+                        onChange={(e) => setAnchorQty(Number(e.target.value))}
+                        style={{ width: "100%" }}
+                      />
+                      <NumInput
+                        label="PCD（ボルト円の直径）"
+                        unit="mm"
+                        value={anchorPCD}
+                        onChange={setAnchorPCD}
+                        min={0}
+                        step={10}
+                      />
+                    </div>
+                  )}
+                  {(anchorPattern === "GRID" ||
+                    anchorPattern === "PERIMETER") && (
+                    <div
+                      style={{
+                        marginTop: 4,
+                        display: "grid",
+                        gridTemplateColumns: "repeat(2,minmax(0,1fr))",
+                        gap: 4,
+                      }}
+                    >
+                      <NumInput
+                        label="行数（縦）"
+                        unit="行"
+                        value={anchorRows}
+                        onChange={setAnchorRows}
+                        min={2}
+                        step={1}
+                      />
+                      <NumInput
+                        label="列数（横）"
+                        unit="列"
+                        value={anchorCols}
+                        onChange={setAnchorCols}
+                        min={1}
+                        step={1}
+                      />
+                    </div>
+                  )}
+                  {anchorPattern === "CUSTOM" && (
+                    <div style={{ marginTop: 4 }}>
+                      <label>
+                        ボルト座標 x,y（mm、1行1本、y = 引張側が正）
+                      </label>
+                      <textarea
+                        rows={4}
+                        value={anchorCoordsText}
+                        onChange={(e) => {
+                          setAnchorCoordsText(e.target.value);
+                          setAnchorCoords(parseAnchorCoords(e.target.value));
+                        }}
+                        style={{ width: "100%", fontFamily: "monospace" }}
+                      />
+                    </div>
+                  )}
+                  <div style={{ marginTop: 2, fontSize: 10, color: "#6b7280" }}>
+                    計算本数 {calc.anchor.n}{" "}
+                    本（引張はプレートの中立軸から・せん断は本数で等分）
+                    {anchorPattern === "CUSTOM" &&
+                      anchorCoords.length === 0 &&
+                      "：座標未入力のため格子配置で計算"}
+                  </div>
+
+                  <div style={{ marginTop: 4 }}>
+                    <label>引張・せん断の相互作用式</label>
+                    <select
+                      style={{ width: "100%" }}
+                      value={anchorInteraction}
+                      onChange={(e) =>
+                        setAnchorInteraction(
+                          e.target.value as AnchorInteraction
+                        )
+                      }
+                    >
+                      {(
+                        Object.keys(
+                          ANCHOR_INTERACTION_LABEL
+                        ) as AnchorInteraction[]
+                      ).map((r) => (
+                        <option key={r} value={r}>
+                          {ANCHOR_INTERACTION_LABEL[r]}：
+                          {ANCHOR_INTERACTION_FORMULA[r]}
+                        </option>
+                      ))}
+                    </select>
                   </div>
 
                   <div style={{ marginTop: 4 }}>
@@ -3504,7 +3839,7 @@ export default function App() {
                 </div>
 
                 <NumInput
-                  label="ベース端〜アンカー芯距離1"
+                  label="ベース端〜アンカー芯距離1（y）"
                   unit="mm"
                   value={edge1}
                   onChange={setEdge1}
@@ -3512,7 +3847,7 @@ export default function App() {
                   step={5}
                 />
                 <NumInput
-                  label="ベース端〜アンカー芯距離2"
+                  label="ベース端〜アンカー芯距離2（x）"
                   unit="mm"
                   value={edge2}
                   onChange={setEdge2}
@@ -3578,6 +3913,22 @@ export default function App() {
                   min={150}
                   step={5}
                 />
+                <NumInput
+                  label="プレート幅 Bp（曲げ方向）"
+                  unit="m"
+                  value={plateB}
+                  onChange={setPlateB}
+                  min={0.1}
+                  step={0.05}
+                />
+                <NumInput
+                  label="ベースプレート奥行 Dp"
+                  unit="m"
+                  value={plateD}
+                  onChange={setPlateD}
+                  min={0.1}
+                  step={0.05}
+                />
               </div>
 
               {signType === "freestanding" && (
@@ -3823,14 +4174,6 @@ export default function App() {
                     marginTop: 6,
                   }}
                 >
-                  <NumInput
-                    label="ベースプレート奥行 Dp"
-                    unit="m"
-                    value={plateD}
-                    onChange={setPlateD}
-                    min={0.2}
-                    step={0.05}
-                  />
                   <NumInput
                     label="孔クリアランス"
                     unit="mm"
@@ -3948,15 +4291,25 @@ export default function App() {
                   setShapeCf(1.5);
                   setAreaFactor(1.0);
                   setSeismicC0(0.3);
+                  setSeismicMode("C0");
+                  setSeismicVertical(false);
+                  setSnowDepth(0);
                   setFamily(sections[0].family);
                   setSectionName(sections[0].name);
                   setBendAxis("x");
                   setFy(235);
                   setK(1.0);
                   setL(3.0);
+                  setLb(0);
+                  setCb(1.0);
+                  setWindSweep(false);
                   setPostQty(1);
                   setHasInterPostConnection(true);
+                  setDeflRatio(100);
+                  setDeflAllowMm(0);
+                  setBaseRotStiff(0);
                   setPlateB(0.4);
+                  setPlateD(0.4);
                   setEcc(0.05);
 
                   const defAnchor =
@@ -3964,9 +4317,16 @@ export default function App() {
                       ? initialABR
                       : DEFAULT_ANCHORS[1];
                   setAnchor(defAnchor);
+                  setAnchorPattern("GRID");
                   setAnchorQty(4);
+                  setAnchorRows(2);
+                  setAnchorCols(2);
                   setAnchorGauge(200);
                   setAnchorPitch(160);
+                  setAnchorPCD(300);
+                  setAnchorCoords([]);
+                  setAnchorCoordsText("");
+                  setAnchorInteraction("LINEAR");
                   setEdge1(50);
                   setEdge2(50);
                   setSpacing(120);
@@ -4065,42 +4425,196 @@ export default function App() {
               label="Fh（自動計算参考・全体）"
               value={showF(Fh_auto_total, forceUnit)}
             />
+            {postLen > 0 && (
+              <ResultRow
+                label="柱の風荷重（露出部・1本あたり）"
+                value={`${showF(Fh_post, forceUnit)} / ${showM(
+                  M_post,
+                  forceUnit
+                )}`}
+                hint={`L=${fmt(postLen, "m", 2)}, b=${fmt(
+                  postWidth * 1000,
+                  "mm",
+                  0
+                )}, Cf=${fmt(postCf.Cf, "", 2)}`}
+              />
+            )}
+            {calc.bracket && (
+              <ResultRow
+                label="ブラケット腕長・偶力（1基あたり）"
+                value={`arm=${fmt(calc.bracket.arm, " m", 3)} / P=${showF(
+                  calc.anchor.P,
+                  forceUnit
+                )}`}
+                hint={
+                  calc.bracket.couple
+                    ? `鉛直荷重×腕長 ÷ 間隔${fmt(
+                        calc.bracket.spacing,
+                        " m",
+                        2
+                      )} ÷ 上段${calc.bracket.nUpper}基（${comboText(
+                        calc.anchor.combo
+                      )}）${signType === "wall" ? "・風は壁面直交の引張" : ""}`
+                    : "1基のみ（または間隔0）：鉛直荷重もブラケットの曲げで負担"
+                }
+              />
+            )}
+            {calc.snow.S_total > 0 && (
+              <ResultRow
+                label="積雪荷重 S（1本あたり）"
+                value={showF(calc.snow.S_total / nCol, forceUnit)}
+                hint={`${calc.snow.unitW} N/m²/cm × ${
+                  calc.snow.depth
+                } cm × ${fmt(calc.snow.topArea, " m²", 2)}${
+                  calc.snow.multi ? "・多雪区域" : ""
+                }${
+                  signType !== "freestanding"
+                    ? "（腕長×S を上下ブラケットの偶力で負担）"
+                    : ""
+                }`}
+              />
+            )}
             <ResultRow
               label="モーメント M（1本あたり）"
               value={showM(M, forceUnit)}
             />
+            {windStripList && zRWarn && (
+              <div style={{ fontSize: 11, color: "#b45309", marginBottom: 2 }}>
+                ⚠ 風の合力高さ zR={fmt(zR, " m", 2)} が看板中心高さ h=
+                {cgHeight} m と異なります（{windStripList.length}
+                帯分割の積分値）
+              </div>
+            )}
             <Divider />
 
             <ResultRow
-              label="部材応力度 σ（1本あたり）"
+              label="部材応力度 σb（1本あたり）"
               value={fmt(sigma, " N/mm²")}
+              hint={`支配：${comboText(calc.column.combo)}`}
             />
             <ResultRow
-              label="許容応力度 σa"
+              label="許容曲げ fb"
               value={fmt(sigma_allow, " N/mm²")}
+              hint={
+                calc.column.ltb
+                  ? `横座屈 lb=${fmt(calc.column.ltb.lb, " m", 2)}：fb1=${fmt(
+                      calc.column.ltb.fb1,
+                      "",
+                      0
+                    )}・fb2=${fmt(calc.column.ltb.fb2, "", 0)}（長期、${
+                      calc.column.ltb.estimated ? "i は iy で代用、" : ""
+                    }短期×1.5）`
+                  : "長期 F/1.5・短期 F"
+              }
             />
+            {calc.column.sweep && (
+              <ResultRow
+                label="斜め風 σb' / fb'（直交軸）"
+                value={`${fmt(calc.column.sigma_cross, " N/mm²", 2)} / ${fmt(
+                  calc.column.fb_cross,
+                  " N/mm²"
+                )}`}
+                hint={`支配風向 θ=${calc.column.theta}°（0° = ${bendAxis}軸まわり、0〜90° を15°刻み）`}
+              />
+            )}
+            {calc.column.sigma_c > 0 && (
+              <ResultRow
+                label="軸圧縮 σc / fc(λ)"
+                value={`${fmt(calc.column.sigma_c, " N/mm²", 2)} / ${fmt(
+                  calc.column.fc,
+                  " N/mm²"
+                )}`}
+                hint={`N=${showF(calc.column.N, forceUnit)}（自重・積雪等）`}
+              />
+            )}
+            {calc.column.A === 0 && (
+              <ResultRow
+                label="軸応力"
+                value="未考慮"
+                hint="断面DBに A_cm2（または w_kgpm）がなく、断面名から寸法も読めません"
+              />
+            )}
+            {!sectionGeometry(calc.column.section ?? { family, name: "" }) &&
+              (calc.column.section?.Zx_cm3 === undefined ||
+                calc.column.section?.ix_cm === undefined) && (
+                <ResultRow
+                  label="断面性能"
+                  value="既定値で計算"
+                  hint="断面DBに Z・i がなく、断面名から寸法も読めません（結果は参考外）"
+                />
+              )}
+            {calc.column.sigma_t > 0 && (
+              <ResultRow
+                label="軸引張 σt / ft"
+                value={`${fmt(calc.column.sigma_t, " N/mm²", 2)} / ${fmt(
+                  calc.column.ft,
+                  " N/mm²"
+                )}`}
+                hint={`P=${showF(calc.column.N, forceUnit)}（ブラケット引張）`}
+              />
+            )}
+            {calc.sectionUnresolved && (
+              <PassRow
+                label="断面性能"
+                ok={false}
+                value="不明（仮定値で計算）"
+                tip="断面DBに Z・i・A が無く断面名からも求まらない：DB に入力するか断面を選び直す"
+              />
+            )}
             <PassRow
-              label="部材検定 η"
+              label="部材検定 η（軸力＋曲げ）"
               ok={etaColumn < 1}
               value={fmt(etaColumn, "", 3)}
-              tip="<1 が目安"
+              tip="σc/fc + σt/ft + σb/fb < 1"
+            />
+            <PassRow
+              label="せん断 τ / fs"
+              ok={calc.column.shear.eta < 1}
+              value={`${fmt(calc.column.shear.tau, " N/mm²", 2)} / ${fmt(
+                calc.column.shear.fs,
+                " N/mm²"
+              )}`}
+              tip={`τ = V/Aw（Aw=${fmt(
+                calc.column.shear.Aw * 1e4,
+                " cm²",
+                2
+              )}、支配：${comboText(calc.column.shear.combo)}）`}
             />
             <PassRow
               label="細長比 λ"
               ok={slenderOK}
               value={`${fmt(lambda, "", 0)} / 200`}
-              tip="≤200 目安"
+              tip="λ = K·L / min(ix, iy) ≤ 200 目安（弱軸）"
             />
+            {calc.deflection && (
+              <PassRow
+                label="頂部たわみ δ（風）"
+                ok={calc.deflection.ok}
+                value={`${fmt(calc.deflection.delta * 1000, " mm", 1)} / ${fmt(
+                  calc.deflection.allow * 1000,
+                  " mm",
+                  1
+                )}`}
+                tip={`H=${fmt(calc.deflection.H, " m", 2)}、δ/H=1/${fmt(
+                  1 / Math.max(calc.deflection.drift, 1e-9),
+                  "",
+                  0
+                )}${calc.deflection.estimatedI ? "（I は Z·h/2 で推定）" : ""}`}
+              />
+            )}
             <Divider />
 
             <ResultRow
               label="アンカー引張最大（1本）"
               value={showF(Tmax, forceUnit)}
+              hint={`支配：${comboText(calc.anchor.combo)}`}
             />
             <ResultRow
               label="アンカーせん断（1本）"
               value={showF(V_anchor, forceUnit)}
-              hint="※簡易版：配置2×2（4本）固定で按分（選択本数は表示用）"
+              hint={`${calc.anchor.n}本で等分（${
+                ANCHOR_PATTERN_LABEL[calc.anchor.pattern]
+              }）`}
             />
             <PassRow
               label="アンカー鋼材（引張）η"
@@ -4110,14 +4624,92 @@ export default function App() {
             <PassRow
               label="アンカーコンクリ側 η"
               ok={etaAnchorConc < 1}
-              value={fmt(etaAnchorConc, "", 3)}
+              value={`${fmt(etaAnchorConc, "", 3)}（ΣT=${showF(
+                calc.anchor.breakout.T_group,
+                forceUnit
+              )} / Ncbg=${showF(calc.anchor.breakout.Ncbg, forceUnit)}）`}
+              tip={`コーン破壊（投影面積法）：${breakoutText()}`}
+            />
+            {calc.anchor.modes
+              .filter((m) => m.id !== "steelT" && m.id !== "cone")
+              .map((m) => (
+                <PassRow
+                  key={m.id}
+                  label={`アンカー${ANCHOR_MODE_LABEL[m.id]} η`}
+                  ok={m.eta < 1}
+                  value={anchorModeText(m)}
+                />
+              ))}
+            <ResultRow
+              label="アンカー支配モード"
+              value={`${ANCHOR_MODE_LABEL[calc.anchor.governingMode]}（η=${fmt(
+                governingAnchorMode.eta,
+                "",
+                3
+              )}）`}
+              hint={comboText(calc.anchor.combo)}
             />
             <PassRow
-              label="ｱﾝｶｰ合成 η(linear)"
-              ok={etaAnchorLinear < 1}
-              value={fmt(etaAnchorLinear, "", 3)}
-              tip="鋼材TaとコンクリTa_concの小さい側＋せん断"
+              label={`ｱﾝｶｰ合成 η（${
+                ANCHOR_INTERACTION_LABEL[calc.anchor.interaction]
+              }）`}
+              ok={etaAnchorCombined < 1}
+              value={`${fmt(etaAnchorCombined, "", 3)}${
+                calc.anchor.interaction !== "LINEAR"
+                  ? `（直線式 ${fmt(calc.anchor.etaLinear, "", 3)}）`
+                  : ""
+              }`}
+              tip={`${
+                ANCHOR_INTERACTION_FORMULA[calc.anchor.interaction]
+              }（Ta・Va は引張・せん断それぞれ最小耐力のモード）`}
             />
+            {calc.gravity && (
+              <>
+                <ResultRow
+                  label="自重偏心モーメント（袖・全体）"
+                  value={showM(calc.gravity.M, forceUnit)}
+                  hint={`W=${showF(calc.gravity.W, forceUnit)} × 腕長${fmt(
+                    calc.gravity.arm,
+                    " m",
+                    3
+                  )}${
+                    calc.gravity.couple
+                      ? ` → 上段1基 P=${showF(calc.gravity.P, forceUnit)}`
+                      : "（ブラケット曲げ）"
+                  }`}
+                />
+                {calc.gravity.G && (
+                  <PassRow
+                    label="自重のみ（長期）ｱﾝｶｰ η"
+                    ok={calc.gravity.G.eta < 1}
+                    value={`T=${showF(
+                      calc.gravity.G.Tmax,
+                      forceUnit
+                    )}, V=${showF(calc.gravity.G.V_anchor, forceUnit)} → ${fmt(
+                      calc.gravity.G.eta,
+                      "",
+                      3
+                    )}`}
+                    tip="1本あたり。合成 η と同じ相互作用式"
+                  />
+                )}
+                {calc.gravity.GW && (
+                  <PassRow
+                    label="自重＋風（短期）ｱﾝｶｰ η"
+                    ok={calc.gravity.GW.eta < 1}
+                    value={`T=${showF(
+                      calc.gravity.GW.Tmax,
+                      forceUnit
+                    )}, V=${showF(calc.gravity.GW.V_anchor, forceUnit)} → ${fmt(
+                      calc.gravity.GW.eta,
+                      "",
+                      3
+                    )}`}
+                    tip="1本あたり。合成 η と同じ相互作用式"
+                  />
+                )}
+              </>
+            )}
             <PassRow
               label="アンカー端距離"
               ok={edgeOK}
@@ -4128,8 +4720,20 @@ export default function App() {
             <PassRow
               label="アンカー列間隔"
               ok={spacingOK}
-              value={`s=${spacing} mm（min≈${Math.round(minSpace)}）`}
+              value={`s=${spacing} mm・配置上 ${fmt(
+                calc.anchor.spacingMin,
+                " mm",
+                0
+              )}（min≈${Math.round(minSpace)}）`}
             />
+            {!calc.anchor.momentOK && (
+              <PassRow
+                label="アンカー配置の M 抵抗"
+                ok={false}
+                value="不可（Σy² = 0）"
+                tip="1本または y が揃った1列の配置で、プレート支圧でも曲げを負担できない：行数・配置を見直す"
+              />
+            )}
             <PassRow
               label="アンカー埋込み長さ hef"
               ok={hefOK}
@@ -4142,9 +4746,25 @@ export default function App() {
             <PassRow
               label="ベースプレート曲げ t"
               ok={plateOK}
-              value={`${plateT} mm ≥ t_req=${fmt(t_req, " mm", 1)}`}
+              value={`${plateT} mm ≥ t_req=${fmt(t_req, " mm", 1)}（${comboText(
+                calc.plate.combo
+              )}）`}
               tip="片持ちストリップ簡易（採用品：16/19/22/25/28/32/36）"
             />
+            <PassRow
+              label="コンクリート支圧 σc"
+              ok={bearing.ok}
+              value={`${fmt(bearing.sigma_c, " N/mm²", 2)} ≤ fc=${fmt(
+                bearing.fc,
+                " N/mm²",
+                2
+              )}（${BASE_PLATE_MODE_LABEL[bearing.mode]}${
+                bearing.mode === "partial"
+                  ? ` xn=${fmt(bearing.xn, " mm", 0)}`
+                  : ""
+              }・${comboText(bearing.combo)}）`}
+              tip="剛なプレート Bp×Dp・平面保持（n=15）。fc は長期 0.25Fc、短期 ×1.5"
+            />
 
             {signType === "freestanding" && (
               <>
@@ -4192,7 +4812,7 @@ export default function App() {
                       : allowUpliftOK
                       ? "浮上り許容設計"
                       : "浮上り不可設定"
-                  }）`}
+                  }${fndGov ? `・${comboText(fndGov.OT)}` : ""}）`}
                   tip={
                     noUplift
                       ? "全面圧縮状態で転倒安全率を満足"
@@ -4204,7 +4824,9 @@ export default function App() {
                 <PassRow
                   label="滑動安全率 FS"
                   ok={FS_SL >= reqFS_SL}
-                  value={`${fmt(FS_SL, "", 2)} ≥ ${reqFS_SL}（摩擦+受働）`}
+                  value={`${fmt(FS_SL, "", 2)} ≥ ${reqFS_SL}（摩擦+受働${
+                    fndGov ? `・${comboText(fndGov.SL)}` : ""
+                  }）`}
                   tip="R=μN_eff + Pp を使用"
                 />
                 <PassRow
@@ -4213,7 +4835,9 @@ export default function App() {
                   value={`σmax=${fmt(
                     sigma_max / 1000,
                     " kPa"
-                  )} ≤ ${qa_allow_final.toFixed(0)} kPa`}
+                  )} ≤ ${qa_allow_final.toFixed(0)} kPa${
+                    fndGov ? `（${comboText(fndGov.bearing)}）` : ""
+                  }`}
                   tip="地盤qa/γ と 0.25Fc の小さい側"
                 />
               </>
@@ -4222,32 +4846,85 @@ export default function App() {
             <div
               style={{
                 marginTop: 12,
-                border: "1px solid #e5e7eb",
-                borderRadius: 6,
-                padding: 8,
+                display: "grid",
+                gridTemplateColumns: calc.deflection
+                  ? "repeat(2,minmax(0,1fr))"
+                  : "1fr",
+                gap: 8,
               }}
             >
-              <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 4 }}>
-                What-if：風速→部材検定 η（Fh入力とは独立・1本あたり）
-              </div>
-              <div style={{ width: "100%", height: 200 }}>
-                <ResponsiveContainer>
-                  <LineChart data={whatIf}>
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="V" tickFormatter={(v) => `${v}m/s`} />
-                    <YAxis domain={[0, "auto"]} />
-                    <Tooltip
-                      formatter={(v) => Number(v).toFixed(3)}
-                      labelFormatter={(l) => `V=${l} m/s`}
-                    />
-                    <Line type="monotone" dataKey="eta" dot={false} />
-                  </LineChart>
-                </ResponsiveContainer>
-              </div>
-              <div style={{ marginTop: 4, fontSize: 11, color: "#6b7280" }}>
-                η&gt;1 は部材↑ / 腕長↓ / アンカー数↑ / 柱本数↑ / Fh見直し
-                などで調整
+              <div
+                style={{
+                  border: "1px solid #e5e7eb",
+                  borderRadius: 6,
+                  padding: 8,
+                }}
+              >
+                <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 4 }}>
+                  What-if：風速→部材検定 η（Fh入力とは独立・1本あたり）
+                </div>
+                <div style={{ width: "100%", height: 200 }}>
+                  <ResponsiveContainer>
+                    <LineChart data={whatIf}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="V" tickFormatter={(v) => `${v}m/s`} />
+                      <YAxis domain={[0, "auto"]} />
+                      <Tooltip
+                        formatter={(v) => Number(v).toFixed(3)}
+                        labelFormatter={(l) => `V=${l} m/s`}
+                      />
+                      <Line type="monotone" dataKey="eta" dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <div style={{ marginTop: 4, fontSize: 11, color: "#6b7280" }}>
+                  η&gt;1 は部材↑ / 腕長↓ / アンカー数↑ / 柱本数↑ / Fh見直し
+                  などで調整
+                </div>
               </div>
+              {calc.deflection && (
+                <div
+                  style={{
+                    border: "1px solid #e5e7eb",
+                    borderRadius: 6,
+                    padding: 8,
+                  }}
+                >
+                  <div
+                    style={{ fontSize: 12, fontWeight: 600, marginBottom: 4 }}
+                  >
+                    変形図：風による柱のたわみ（1本あたり）
+                  </div>
+                  <div style={{ width: "100%", height: 200 }}>
+                    <ResponsiveContainer>
+                      <LineChart data={calc.deflection.shape}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis
+                          type="number"
+                          dataKey="d"
+                          domain={[0, "auto"]}
+                          tickFormatter={(v) => `${Number(v).toFixed(0)}mm`}
+                        />
+                        <YAxis
+                          type="number"
+                          dataKey="z"
+                          domain={[0, "auto"]}
+                          tickFormatter={(v) => `${Number(v).toFixed(1)}m`}
+                        />
+                        <Tooltip
+                          formatter={(v) => `${Number(v).toFixed(2)} m`}
+                          labelFormatter={(l) => `δ=${Number(l).toFixed(1)} mm`}
+                        />
+                        <Line type="monotone" dataKey="z" dot={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <div style={{ marginTop: 4, fontSize: 11, color: "#6b7280" }}>
+                    頂部 δ={fmt(calc.deflection.delta * 1000, " mm", 1)}
+                    （許容 {fmt(calc.deflection.allow * 1000, " mm", 1)}）
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -4263,7 +4940,7 @@ export default function App() {
         >
           <Info size={14} style={{ marginTop: 2 }} />
           <div>
-            本ツールは一次設計の簡易法（Σy²配分・片持ち板曲げ・偏心圧＋滑動・簡易アンカーコンクリ判定・簡易根入れ抵抗）を実装したものです。
+            本ツールは一次設計の簡易法（剛なベースプレートの中立軸によるアンカー引張・片持ち板曲げ・偏心圧＋滑動・投影面積法のアンカーコンクリ判定・簡易根入れ抵抗）を実装したものです。
             建築確認提出・最終設計に際しては、適用基準・メーカー設計指針・地盤調査結果に基づき、
             有資格構造技術者による検証・補正を前提としてください。
           </div>
@@ -4281,6 +4958,7 @@ function NumInput({
   value,
   onChange,
   min = 0,
+  max,
   step = 0.1,
 }: {
   label: string;
@@ -4288,9 +4966,11 @@ function NumInput({
   value: number;
   onChange: (v: number) => void;
   min?: number;
+  max?: number;
   step?: number;
 }) {
-  const invalid = Number.isNaN(value) || value < min;
+  const invalid =
+    Number.isNaN(value) || value < min || (max !== undefined && value > max);
   return (
     <div style={{ fontSize: 12 }}>
       <label>{label}</label>
@@ -4298,6 +4978,8 @@ function NumInput({
         <input
           type="number"
           step={step}
+          min={min}
+          max={max}
           value={value}
           onChange={(e) => onChange(Number(e.target.value))}
           style={{
@@ -0,0 +1,47 @@
+// engine/anchor.test.ts
+// アンカー引張の配分（Σy²・プレート支圧）の検証
+import { describe, expect, test } from "@jest/globals";
+import { computeAnchorTensions } from "./anchor";
+import { calculateSign } from "./calculateSign";
+import { DEFAULT_SIGN_INPUT } from "./config";
+import { basePlateAnalysis } from "./plate";
+
+const LINE = [
+  { x: -100, y: 0 },
+  { x: 100, y: 0 },
+];
+
+describe("Σy² = 0 の配置", () => {
+  test("1本・1列は M を負担できない", () => {
+    expect(computeAnchorTensions(5000, [{ x: 0, y: 0 }]).momentOK).toBe(false);
+    expect(computeAnchorTensions(5000, LINE).momentOK).toBe(false);
+    expect(computeAnchorTensions(0, LINE, 1000).momentOK).toBe(true);
+  });
+
+  test("2列なら Σy² 配分", () => {
+    const r = computeAnchorTensions(5000, [
+      { x: 0, y: -100 },
+      { x: 0, y: 100 },
+    ]);
+    expect(r.momentOK).toBe(true);
+    expect(Math.max(...r.list.map((a) => a.T))).toBeCloseTo(25000, 6);
+  });
+
+  test("プレート支圧で中立軸が求まれば1列でも可", () => {
+    const r = basePlateAnalysis(10000, 5000, LINE, { B: 400, D: 400, Ab: 400 });
+    expect(r.mode).not.toBe("bolts");
+    expect(r.momentOK).toBe(true);
+  });
+
+  test("プレートなしの1列配置は総合 NG", () => {
+    const res = calculateSign({
+      ...DEFAULT_SIGN_INPUT,
+      anchorPattern: "CUSTOM",
+      anchorCoords: LINE,
+      plateB: 0,
+      plateD: 0,
+    });
+    expect(res.anchor.momentOK).toBe(false);
+    expect(res.overallOK).toBe(false);
+  });
+});
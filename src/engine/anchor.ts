@@ -0,0 +1,536 @@
+// engine/anchor.ts
+import { ABR_ANCHORS } from "./catalog";
+import type {
+  AnchorConcreteModes,
+  AnchorInteraction,
+  AnchorLayout,
+  AnchorModeCheck,
+  AnchorModeId,
+  AnchorPattern,
+  AnchorPoint,
+  AnchorSpec,
+  AnchorTension,
+  ConcreteBreakoutResult,
+  SignInput,
+  SignType,
+} from "./types";
+
+/* ==========================================
+   (C) アンカー コンクリ側引張：係数まとめ
+   ========================================== */
+export const ANCHOR_CONC = {
+  // Fc は N/mm²、hef は mm を想定
+  // 縁・群・偏心の低減は配置から算定（concreteBreakout）
+  k: 7.0, // 基本係数（コーン破壊 Nb = k·√Fc·hef^1.5）
+  phi: 0.75, // 強度低減（安全側）
+  psiCrack: 0.85, // ひび割れ等の簡易低減（安全側・定数）
+};
+
+// アンカー選択肢（自立→ABR、その他→anchors）
+export const anchorListFor = (signType: SignType, anchors: AnchorSpec[]) =>
+  signType === "freestanding" ? ABR_ANCHORS : anchors;
+
+export function resolveAnchor(
+  signType: SignType,
+  anchors: AnchorSpec[],
+  anchorName: string
+): AnchorSpec {
+  const list = anchorListFor(signType, anchors);
+  return list.find((a) => a.name === anchorName) || list[0] || ABR_ANCHORS[0];
+}
+
+// hef 要件：自立＝20d、その他＝hefRec（無ければ10d）
+export const hefRequired = (signType: SignType, a: AnchorSpec) =>
+  signType === "freestanding" ? a.d * 20 : a.hefRec || a.d * 10;
+
+export const ANCHOR_PATTERN_LABEL: Record<AnchorPattern, string> = {
+  GRID: "格子（行×列）",
+  PERIMETER: "外周（行×列の外周のみ）",
+  CIRCLE: "円周（PCD）",
+  CUSTOM: "座標指定",
+};
+
+// 0〜span を n 等分した座標（中心基準、n = 1 は中央）
+const spread = (span: number, n: number) =>
+  Array.from({ length: n }, (_, i) =>
+    n > 1 ? -span / 2 + (span * i) / (n - 1) : 0
+  );
+
+/**
+ * アンカー配置（柱芯基準、mm）。y は曲げで引張側が正（縦間隔 gauge 方向）。
+ * 格子・外周は縦 anchorRows 行 × 横 anchorCols 列（gauge × pitch の範囲に等間隔）、
+ * 円周は anchorQty 本（1本を曲げ方向の軸上に置く＝最も厳しい向き）。
+ * 座標指定が空のときは格子配置とする。
+ */
+export function anchorLayout(
+  input: Pick<
+    SignInput,
+    | "anchorPattern"
+    | "anchorRows"
+    | "anchorCols"
+    | "anchorQty"
+    | "anchorGauge"
+    | "anchorPitch"
+    | "anchorPCD"
+    | "anchorCoords"
+  >
+): AnchorLayout {
+  const rows = Math.max(2, Math.floor(Number(input.anchorRows) || 2));
+  const cols = Math.max(1, Math.floor(Number(input.anchorCols) || 2));
+  const pattern =
+    input.anchorPattern === "CUSTOM" && !(input.anchorCoords || []).length
+      ? "GRID"
+      : input.anchorPattern || "GRID";
+  const points: AnchorTension[] = [];
+  const push = (x: number, y: number) =>
+    points.push({ id: `A${points.length + 1}`, x, y, T: 0 });
+
+  if (pattern === "CIRCLE") {
+    const n = Math.max(3, Math.floor(Number(input.anchorQty) || 4));
+    const r = Math.max(0, Number(input.anchorPCD) || 0) / 2;
+    for (let i = 0; i < n; i++) {
+      const t = Math.PI / 2 + (2 * Math.PI * i) / n;
+      push(r * Math.cos(t), r * Math.sin(t));
+    }
+    return { pattern, points, rowPitch: (Math.PI * 2 * r) / n };
+  }
+  if (pattern === "CUSTOM") {
+    for (const p of input.anchorCoords) push(p.x, p.y);
+    return { pattern, points, rowPitch: input.anchorPitch };
+  }
+  const xs = spread(input.anchorPitch, cols);
+  const ys = spread(input.anchorGauge, rows).reverse();
+  ys.forEach((y, i) =>
+    xs.forEach((x, j) => {
+      const edge = i === 0 || i === rows - 1 || j === 0 || j === cols - 1;
+      if (pattern === "GRID" || edge) push(x, y);
+    })
+  );
+  return {
+    pattern,
+    points,
+    rowPitch: cols > 1 ? input.anchorPitch / (cols - 1) : input.anchorPitch,
+  };
+}
+
+// ボルト間の最小間隔 [mm]（1本のみは Infinity）
+export function minAnchorSpacing(points: AnchorPoint[]) {
+  let min = Infinity;
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const d = Math.hypot(
+        points[i].x - points[j].x,
+        points[i].y - points[j].y
+      );
+      min = Math.min(min, d);
+    }
+  }
+  return min;
+}
+
+/**
+ * Σy² 配分：T_i = M·y_i / Σy² + P/n（y はボルト群の図心から）。
+ * P は全アンカーに均等な直接引張（壁付・ブラケットの偶力）。
+ * Σy² = 0（1本、または y が揃った1列）では M に抵抗できないため momentOK = false。
+ */
+export function computeAnchorTensions(
+  M: number,
+  points: (AnchorPoint & { id?: string })[],
+  P = 0
+) {
+  const n = Math.max(1, points.length);
+  const y0 = points.reduce((s, c) => s + c.y, 0) / n; // mm
+  const sumY2 = points.reduce((s, c) => s + Math.pow((c.y - y0) / 1000, 2), 0); // m²
+  const list: AnchorTension[] = points.map((c, i) => ({
+    id: c.id ?? `A${i + 1}`,
+    x: c.x,
+    y: c.y,
+    T: (sumY2 > 0 ? (M * ((c.y - y0) / 1000)) / sumY2 : 0) + P / n,
+  }));
+  return { list, sumY2, momentOK: sumY2 > 0 || M === 0 };
+}
+
+// 軸に平行な長方形の和集合の面積（座標圧縮）
+type Box = { x0: number; x1: number; y0: number; y1: number };
+function unionArea(boxes: Box[]) {
+  const xs = boxes.reduce<number[]>((a, b) => a.concat(b.x0, b.x1), []);
+  const ys = boxes.reduce<number[]>((a, b) => a.concat(b.y0, b.y1), []);
+  const sx = xs
+    .sort((a, b) => a - b)
+    .filter((v, i, a) => i === 0 || v > a[i - 1]);
+  const sy = ys
+    .sort((a, b) => a - b)
+    .filter((v, i, a) => i === 0 || v > a[i - 1]);
+  let area = 0;
+  for (let i = 0; i + 1 < sx.length; i++) {
+    for (let j = 0; j + 1 < sy.length; j++) {
+      const cx = (sx[i] + sx[i + 1]) / 2;
+      const cy = (sy[j] + sy[j + 1]) / 2;
+      if (boxes.some((b) => cx > b.x0 && cx < b.x1 && cy > b.y0 && cy < b.y1)) {
+        area += (sx[i + 1] - sx[i]) * (sy[j + 1] - sy[j]);
+      }
+    }
+  }
+  return area;
+}
+
+// 隣り合うアンカーの最大間隔 [mm]（x・y それぞれの座標差）
+function maxGap(values: number[]) {
+  const v = values.slice().sort((a, b) => a - b);
+  let gap = 0;
+  for (let i = 1; i < v.length; i++) gap = Math.max(gap, v[i] - v[i - 1]);
+  return gap;
+}
+
+/**
+ * コンクリート縁の位置（柱芯基準 mm）：外側アンカーから edge1（y）・edge2（x、袖は縁なし）。
+ * 自立はさらに基礎 footB（y）× footD（x）の外形（柱は中央）で切り、近い方の縁を採る。
+ */
+export function concreteBounds(
+  input: Pick<SignInput, "signType" | "edge1" | "edge2" | "footB" | "footD">,
+  anchors: AnchorPoint[]
+): Box {
+  const xs = anchors.map((a) => a.x);
+  const ys = anchors.map((a) => a.y);
+  const e1 = Math.max(0, input.edge1);
+  const e2 =
+    input.signType === "projecting" ? Infinity : Math.max(0, input.edge2);
+  const box = {
+    x0: Math.min(...xs) - e2,
+    x1: Math.max(...xs) + e2,
+    y0: Math.min(...ys) - e1,
+    y1: Math.max(...ys) + e1,
+  };
+  if (input.signType !== "freestanding") return box;
+  const bx = Math.max(0, input.footD) * 500;
+  const by = Math.max(0, input.footB) * 500;
+  return {
+    x0: Math.max(box.x0, -bx),
+    x1: Math.min(box.x1, bx),
+    y0: Math.max(box.y0, -by),
+    y1: Math.min(box.y1, by),
+  };
+}
+
+// アンカー群の外側〜各縁の距離 [mm]（縁なしは Infinity）
+const edgeDistances = (points: AnchorPoint[], b: Box) => ({
+  xMin: Math.max(0, Math.min(...points.map((a) => a.x)) - b.x0),
+  xMax: Math.max(0, b.x1 - Math.max(...points.map((a) => a.x))),
+  yMin: Math.max(0, Math.min(...points.map((a) => a.y)) - b.y0),
+  yMax: Math.max(0, b.y1 - Math.max(...points.map((a) => a.y))),
+});
+
+/**
+ * コンクリートのコーン状破壊（投影面積法）[N]。
+ * 群は引張のアンカー（T > 0、無ければ全数）。各アンカーから 1.5hef の正方形を
+ * コンクリート縁（concreteBounds）で切り取った和集合を A_Nc とし、
+ * 縁距離・引張合力の偏心から ψed・ψec を求める。
+ * 3辺以上の縁が 1.5hef 未満のときは hef' = max(c_max/1.5, s_max/3) に低減する。
+ */
+export function concreteBreakout(
+  input: Pick<SignInput, "signType" | "edge1" | "edge2" | "footB" | "footD">,
+  anchors: AnchorTension[],
+  Fc: number,
+  hef: number
+): ConcreteBreakoutResult {
+  const tension = anchors.filter((a) => a.T > 0);
+  const group = tension.length ? tension : anchors.map((a) => ({ ...a, T: 0 }));
+  const n = Math.max(1, group.length);
+  const xs = group.map((a) => a.x);
+  const ys = group.map((a) => a.y);
+  const bound = concreteBounds(input, anchors);
+  const edges = edgeDistances(group, bound);
+  const cs = [edges.xMin, edges.xMax, edges.yMin, edges.yMax];
+  const cMin = Math.min(...cs);
+
+  // 3辺以上が近いときの hef 低減
+  let hefUse = Math.max(0, hef);
+  const near = cs.filter((c) => c < 1.5 * hefUse);
+  if (near.length >= 3) {
+    const sMax = Math.max(maxGap(xs), maxGap(ys));
+    hefUse = Math.min(hefUse, Math.max(Math.max(...near) / 1.5, sMax / 3));
+  }
+  const hefReduced = hefUse < hef;
+
+  const r = 1.5 * hefUse;
+  const A_Nc0 = 9 * hefUse * hefUse;
+  const A_Nc = unionArea(
+    group.map((a) => ({
+      x0: Math.max(a.x - r, bound.x0),
+      x1: Math.min(a.x + r, bound.x1),
+      y0: Math.max(a.y - r, bound.y0),
+      y1: Math.min(a.y + r, bound.y1),
+    }))
+  );
+  const Nb =
+    Fc > 0 && hefUse > 0
+      ? ANCHOR_CONC.k * Math.sqrt(Fc) * Math.pow(hefUse, 1.5)
+      : 0;
+  const psiEd = cMin >= r ? 1 : 0.7 + (0.3 * cMin) / Math.max(r, 1e-9);
+
+  // 引張合力の偏心（各方向の ψec の積）
+  const T_group = group.reduce((s, a) => s + a.T, 0);
+  const centroid = (v: number[]) => v.reduce((s, o) => s + o, 0) / n;
+  const resultant = (k: "x" | "y") =>
+    T_group > 0 ? group.reduce((s, a) => s + a.T * a[k], 0) / T_group : 0;
+  const eNx = T_group > 0 ? Math.abs(resultant("x") - centroid(xs)) : 0;
+  const eNy = T_group > 0 ? Math.abs(resultant("y") - centroid(ys)) : 0;
+  const psi = (e: number) => (r > 0 ? Math.min(1, 1 / (1 + e / r)) : 1);
+  const psiEc = psi(eNx) * psi(eNy);
+
+  const psiC = ANCHOR_CONC.psiCrack;
+  const phi = ANCHOR_CONC.phi;
+  const Ncbg = A_Nc0 > 0 ? phi * psiC * psiEd * psiEc * (A_Nc / A_Nc0) * Nb : 0;
+  return {
+    nT: group.length,
+    hef: hefUse,
+    hefReduced,
+    Nb,
+    A_Nc,
+    A_Nc0,
+    edges,
+    cMin,
+    eNx,
+    eNy,
+    psiEd,
+    psiEc,
+    psiC,
+    phi,
+    Ncbg,
+    T_group,
+  };
+}
+
+// 最大引張のアンカー1本あたりに換算したコーン破壊耐力 [N]（Tmax/Ta_conc = ΣT/Ncbg）
+export const breakoutPerAnchor = (b: ConcreteBreakoutResult, Tmax: number) =>
+  b.T_group > 0 ? (b.Ncbg * Tmax) / b.T_group : b.Ncbg / Math.max(1, b.nT);
+
+export const ANCHOR_MODE_LABEL: Record<AnchorModeId, string> = {
+  steelT: "鋼材引張",
+  cone: "コーン破壊",
+  pullout: "引抜き（頭部支圧）",
+  blowout: "側方破裂",
+  steelV: "鋼材せん断",
+  pryout: "プライアウト",
+  edgeV: "縁端破壊（せん断）",
+};
+
+// 頭部（ナット）の支圧面積 [mm²]：未設定は六角ナット（二面幅 1.5d）から軸断面を除いて推定
+export function anchorBearingArea(a: AnchorSpec) {
+  if (a.Abrg_mm2 && a.Abrg_mm2 > 0) {
+    return { Abrg: a.Abrg_mm2, estimated: false };
+  }
+  const w = 1.5 * a.d;
+  return {
+    Abrg: (Math.sqrt(3) / 2) * w * w - (Math.PI * a.d * a.d) / 4,
+    estimated: true,
+  };
+}
+
+/**
+ * コーン破壊以外のコンクリート側耐力（短期、縁は concreteBounds）。
+ * 引抜き Np = φ·ψc·8·Abrg·Fc、
+ * 側方破裂 Nsb = φ·13·ca1·√Abrg·√Fc（hef > 2.5ca1 のみ、ca2 < 3ca1 は (1 + ca2/ca1)/4 倍）、
+ * プライアウト Vcpg = kcp·Ncpg（全数のコーン破壊、kcp = hef < 65mm で 1、以上 2）、
+ * せん断の縁端破壊 Vcbg = φ·ψc·ψed·ψh·(A_Vc/A_Vc0)·Vb（Vb = 0.6(le/d)^0.2·√d·√Fc·ca1^1.5）。
+ * せん断は曲げと同じ y 方向（正負とも）に作用するとし、縁に近い側の列から全せん断を負担させる。
+ */
+export function anchorConcreteModes(
+  input: Pick<
+    SignInput,
+    "signType" | "edge1" | "edge2" | "footB" | "footD" | "footH"
+  >,
+  spec: AnchorSpec,
+  anchors: AnchorTension[],
+  Fc: number,
+  hef: number
+): AnchorConcreteModes {
+  const { phi, psiCrack } = ANCHOR_CONC;
+  const sqrtFc = Fc > 0 ? Math.sqrt(Fc) : 0;
+  const { Abrg, estimated } = anchorBearingArea(spec);
+  const bound = concreteBounds(input, anchors);
+
+  // 側方破裂：引張アンカーごとに縁に近い方向を ca1 とし、最小の Nsb
+  const tension = anchors.filter((a) => a.T > 0);
+  let blowout = { ca1: Infinity, ca2: Infinity, applies: false, Nsb: Infinity };
+  for (const a of tension.length ? tension : anchors) {
+    const dx = Math.max(0, Math.min(a.x - bound.x0, bound.x1 - a.x));
+    const dy = Math.max(0, Math.min(a.y - bound.y0, bound.y1 - a.y));
+    const ca1 = Math.min(dx, dy);
+    const ca2 = Math.max(dx, dy);
+    const applies = hef > 2.5 * ca1;
+    const Nsb = applies
+      ? phi *
+        13 *
+        ca1 *
+        Math.sqrt(Abrg) *
+        sqrtFc *
+        (ca2 < 3 * ca1 ? (1 + ca2 / ca1) / 4 : 1)
+      : Infinity;
+    if (
+      (applies && (!blowout.applies || Nsb < blowout.Nsb)) ||
+      (!blowout.applies && ca1 < blowout.ca1)
+    ) {
+      blowout = { ca1, ca2, applies, Nsb };
+    }
+  }
+
+  // プライアウト：全数に均等な引張としたコーン破壊
+  const Ncpg = concreteBreakout(
+    input,
+    anchors.map((a) => ({ ...a, T: 1 })),
+    Fc,
+    hef
+  ).Ncbg;
+  const kcp = hef < 65 ? 1 : 2;
+
+  // せん断の縁端破壊（+y・−y の小さい方）
+  const xs = anchors.map((a) => a.x);
+  const ys = anchors.map((a) => a.y);
+  const cL = Math.min(...xs) - bound.x0;
+  const cR = bound.x1 - Math.max(...xs);
+  const ha =
+    input.signType === "freestanding"
+      ? Math.max(0, input.footH) * 1000
+      : Infinity;
+  const le = Math.min(hef, 8 * spec.d);
+  const edgeAt = (ca1Raw: number) => {
+    let ca1 = Math.max(0, ca1Raw);
+    if (cL < 1.5 * ca1 && cR < 1.5 * ca1 && ha < 1.5 * ca1) {
+      const limit = Math.max(Math.max(cL, cR) / 1.5, ha / 1.5, maxGap(xs) / 3);
+      ca1 = Math.min(ca1, limit);
+    }
+    const r = 1.5 * ca1;
+    const A_Vc0 = 4.5 * ca1 * ca1;
+    const width =
+      Math.max(...xs) - Math.min(...xs) + Math.min(r, cL) + Math.min(r, cR);
+    const A_Vc = Math.min(width * Math.min(r, ha), anchors.length * A_Vc0);
+    const ca2 = Math.min(cL, cR);
+    const psiEd = ca2 >= r ? 1 : 0.7 + (0.3 * ca2) / Math.max(r, 1e-9);
+    const psiH = ha < r ? Math.sqrt(r / Math.max(ha, 1e-9)) : 1;
+    const Vb =
+      spec.d > 0 && le > 0
+        ? 0.6 *
+          Math.pow(le / spec.d, 0.2) *
+          Math.sqrt(spec.d) *
+          sqrtFc *
+          Math.pow(ca1, 1.5)
+        : 0;
+    const Vcbg =
+      A_Vc0 > 0 ? phi * psiCrack * psiEd * psiH * (A_Vc / A_Vc0) * Vb : 0;
+    return { ca1, ca2, ha, le, Vb, A_Vc, A_Vc0, psiEd, psiH, Vcbg };
+  };
+  const noEdge = {
+    ca1: Infinity,
+    ca2: Infinity,
+    ha,
+    le,
+    Vb: 0,
+    A_Vc: 0,
+    A_Vc0: 0,
+    psiEd: 1,
+    psiH: 1,
+    Vcbg: Infinity,
+  };
+  const edgeV = [bound.y1 - Math.max(...ys), Math.min(...ys) - bound.y0]
+    .filter((c) => Number.isFinite(c))
+    .map(edgeAt)
+    .reduce((a, b) => (b.Vcbg < a.Vcbg ? b : a), noEdge);
+
+  return {
+    Abrg,
+    AbrgEstimated: estimated,
+    Np: phi * psiCrack * 8 * Abrg * Fc,
+    blowout,
+    pryout: { kcp, Ncpg, Vcpg: kcp * Ncpg },
+    edgeV,
+  };
+}
+
+/**
+ * 破壊モード別の検定（1本あたり）。k は組合せの倍率（長期 1/1.5）、
+ * Ta_conc はコーン破壊の1本換算、群の耐力（プライアウト・縁端破壊）は本数で等分する。
+ * 合成式の Ta_eff・Va_eff は引張・せん断それぞれで最小の耐力。
+ */
+export function anchorModeChecks(
+  spec: AnchorSpec,
+  conc: AnchorConcreteModes,
+  Ta_conc: number,
+  n: number,
+  Tmax: number,
+  V_anchor: number,
+  k: number
+) {
+  const row = (
+    id: AnchorModeId,
+    kind: "T" | "V",
+    capShort: number,
+    applicable = true
+  ): AnchorModeCheck => {
+    const capacity = applicable ? capShort * k : Infinity;
+    const demand = kind === "T" ? Tmax : V_anchor;
+    const eta =
+      !applicable || demand <= 0
+        ? 0
+        : capacity > 0
+        ? demand / capacity
+        : Infinity;
+    return { id, kind, demand, capacity, eta, applicable };
+  };
+  const nn = Math.max(1, n);
+  const modes = [
+    row("steelT", "T", spec.Ta),
+    row("cone", "T", Ta_conc),
+    row("pullout", "T", conc.Np),
+    row("blowout", "T", conc.blowout.Nsb, conc.blowout.applies),
+    row("steelV", "V", spec.Va),
+    row("pryout", "V", conc.pryout.Vcpg / nn),
+    row("edgeV", "V", conc.edgeV.Vcbg / nn, Number.isFinite(conc.edgeV.ca1)),
+  ];
+  const minCap = (kind: "T" | "V") =>
+    Math.min(...modes.filter((m) => m.kind === kind).map((m) => m.capacity));
+  return {
+    modes,
+    Ta_eff: minCap("T"),
+    Va_eff: minCap("V"),
+    governingMode: modes.reduce((a, b) => (b.eta > a.eta ? b : a)).id,
+  };
+}
+
+export const ANCHOR_INTERACTION_LABEL: Record<AnchorInteraction, string> = {
+  LINEAR: "直線",
+  ELLIPSE: "楕円",
+  POW53: "5/3乗",
+  TRILINEAR: "3直線",
+};
+
+export const ANCHOR_INTERACTION_FORMULA: Record<AnchorInteraction, string> = {
+  LINEAR: "T/Ta + V/Va ≤ 1",
+  ELLIPSE: "(T/Ta)² + (V/Va)² ≤ 1",
+  POW53: "(T/Ta)^(5/3) + (V/Va)^(5/3) ≤ 1",
+  TRILINEAR:
+    "V/Va ≤ 0.2 → T/Ta ≤ 1、T/Ta ≤ 0.2 → V/Va ≤ 1、その他 (T/Ta + V/Va)/1.2 ≤ 1",
+};
+
+/**
+ * 引張・せん断の合成 η（t = T/Ta、v = V/Va）。
+ * 3直線は一方が 0.2 以下ならもう一方のみ、それ以外は (t + v)/1.2。
+ */
+export function anchorInteractionEta(
+  rule: AnchorInteraction,
+  t: number,
+  v: number
+) {
+  switch (rule) {
+    case "ELLIPSE":
+      return t * t + v * v;
+    case "POW53":
+      return Math.pow(t, 5 / 3) + Math.pow(v, 5 / 3);
+    case "TRILINEAR":
+      if (v <= 0.2) return Math.max(t, v);
+      if (t <= 0.2) return v;
+      return (t + v) / 1.2;
+    default:
+      return t + v;
+  }
+}
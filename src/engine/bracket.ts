@@ -0,0 +1,68 @@
+// engine/bracket.ts
+// 袖看板・壁付看板のブラケット（壁面アンカー）への荷重配分
+// 腕長 arm = 壁面〜看板重心の水平距離 =（出幅 + 離れ）/ 2
+//   袖：出幅 = 壁面〜看板外端、離れ = 壁面〜看板内端
+//   壁付：出幅 = 壁面〜看板前面、離れ = 壁面〜看板背面
+import type { BracketResult, LoadEffect, SignInput } from "./types";
+
+export function bracketGeometry(
+  input: Pick<
+    SignInput,
+    "bracketProjection" | "panelOffset" | "bracketQty" | "bracketSpacing"
+  >
+): BracketResult {
+  const projection = Math.max(0, Number(input.bracketProjection) || 0);
+  const offset = Math.min(
+    projection,
+    Math.max(0, Number(input.panelOffset) || 0)
+  );
+  const qty = Math.max(1, Math.floor(Number(input.bracketQty) || 1));
+  const spacing = Math.max(0, Number(input.bracketSpacing) || 0);
+  return {
+    projection,
+    offset,
+    arm: (projection + offset) / 2,
+    qty,
+    spacing,
+    nUpper: Math.ceil(qty / 2),
+    couple: qty >= 2 && spacing > 0,
+  };
+}
+
+/**
+ * 水平力（全体）→ ブラケット1基あたり。
+ * 壁面に平行な力は腕長で曲げ（M = F/n·arm）、壁面に直交する力（壁付の風）は直接引張 P = F/n。
+ */
+export function bracketHorizontal(
+  b: BracketResult,
+  F_total: number,
+  normalToWall: boolean
+): LoadEffect {
+  const F = F_total / b.qty;
+  return normalToWall
+    ? { V: 0, M: 0, N: 0, P: F }
+    : { V: F, M: F * b.arm, N: 0, P: 0 };
+}
+
+/**
+ * 鉛直力（全体）→ ブラケット1基あたり。
+ * 壁面まわりのモーメント Pv·arm を上下ブラケットの偶力に分解し、上段1基の引張 P とする。
+ * 1基のみ（または間隔 0）で偶力を組めない場合はブラケットの曲げで負担する。
+ */
+export function bracketVertical(
+  b: BracketResult,
+  Pv_total: number
+): LoadEffect {
+  const V = Pv_total / b.qty;
+  return b.couple
+    ? { V, M: 0, N: V, P: (Pv_total * b.arm) / b.spacing / b.nUpper }
+    : { V, M: V * b.arm, N: V, P: 0 };
+}
+
+// ケースの和（看板面＋柱の露出部の風など）
+export const addEffects = (a: LoadEffect, b: LoadEffect): LoadEffect => ({
+  V: a.V + b.V,
+  M: a.M + b.M,
+  N: a.N + b.N,
+  P: a.P + b.P,
+});
@@ -0,0 +1,511 @@
+// engine/calculateSign.ts
+import {
+  anchorConcreteModes,
+  anchorInteractionEta,
+  anchorLayout,
+  anchorModeChecks,
+  breakoutPerAnchor,
+  concreteBreakout,
+  hefRequired,
+  minAnchorSpacing,
+  resolveAnchor,
+} from "./anchor";
+import {
+  addEffects,
+  bracketGeometry,
+  bracketHorizontal,
+  bracketVertical,
+} from "./bracket";
+import { pickCf } from "./cfCatalog";
+import { topDeflection } from "./deflection";
+import { evalFoundationCombos } from "./foundation";
+import {
+  buildLoadCombos,
+  caseFactor,
+  governing,
+  TERM_ALLOW_FACTOR,
+  termBearingFactor,
+} from "./loadCombos";
+import {
+  checkColumn,
+  resolveSection,
+  sectionProjectedWidth,
+  sectionUnresolved,
+} from "./member";
+import {
+  basePlateAnalysis,
+  computePlateThickness,
+  plateNormalForce,
+} from "./plate";
+import { seismicCoefficients } from "./seismic";
+import { snowLoad } from "./snow";
+import type {
+  LoadCase,
+  LoadCombo,
+  LoadEffect,
+  SignInput,
+  SignResult,
+} from "./types";
+import { G } from "./units";
+import { signTopHeight, windDesign, windStripPressures } from "./wind";
+
+/**
+ * サイン構造計算（一次設計・簡易法）の全検定を行う純関数。
+ * 入力は sign_config.json と同じキーで、React state には依存しない。
+ */
+export function calculateSign(input: SignInput): SignResult {
+  const { signType } = input;
+
+  // ===== 風 =====
+  const panelArea = input.width * input.height * input.areaFactor;
+  // 基準速度圧 q0・設計速度圧 qz（告示算定時は中間値 code も）
+  const { q0, qz, code } = windDesign(input.windV0, input);
+  // Cf：形状のみモードはカタログ項目を適用（CF_INCLUDES_ALL は手入力 Cf のまま）
+  const cf = pickCf(
+    input.cfMode === "SHAPE_ONLY" ? input.cfEntry : "MANUAL",
+    input.shapeCf,
+    {
+      width: input.width,
+      height: input.height,
+      topHeight: signTopHeight(input.cgHeight, input.height),
+      porosity: input.cfPorosity,
+      qz,
+    }
+  );
+
+  // 高さ方向の帯分割：各帯の qz で合力 Fw と合力高さ zR を積分
+  const strips = windStripPressures(input.windV0, input, input.windStrips);
+  const kArea = cf.Cf * input.width * input.areaFactor * cf.areaRatio;
+  let Fw_total = qz * cf.Cf * panelArea * cf.areaRatio; // N
+  let zR = input.cgHeight;
+  if (strips) {
+    Fw_total = strips.reduce((s, o) => s + o.qz * kArea * o.dh, 0);
+    zR =
+      Fw_total > 0
+        ? strips.reduce((s, o) => s + o.qz * kArea * o.dh * o.z, 0) / Fw_total
+        : input.cgHeight;
+  }
+  // 合力高さが看板中心高さから 5cm 以上ずれたら注意
+  const zRWarn = Math.abs(zR - input.cgHeight) >= 0.05;
+
+  // ===== 荷重（全体 → 1本あたり）=====
+  const Wself_total = input.panelKg * G; // N
+
+  // 袖・壁付はブラケット基数で分担（看板の枠で一体とみなす）
+  const bracket = signType === "freestanding" ? null : bracketGeometry(input);
+  const nCol_raw = bracket
+    ? bracket.qty
+    : Math.max(1, Math.floor(Number(input.postQty) || 1));
+  // 連結なし（OFF）の場合：荷重は均等分担できない前提 → 1本扱い
+  const nCol = bracket || input.hasInterPostConnection ? nCol_raw : 1;
+  const Wself_perCol = Wself_total / nCol;
+
+  // 地震（看板重量 × KH）・参考用の自動水平力（風・地震の大きい方、全体）
+  const seismic = seismicCoefficients(input);
+  const Fk_total = Wself_total * seismic.KH;
+  const Fh_auto_total = Math.max(Fw_total, Fk_total);
+
+  // 入力Fh（forceUnit に応じて N に変換）※全体
+  const FhIn = Math.max(0, input.FhInput);
+  const Fh_manual_total_N = input.forceUnit === "kgf" ? FhIn * G : FhIn;
+  const manualFh = Fh_manual_total_N > 0;
+
+  // 設計に用いる Fh（全体）：入力値 > 0 のとき優先、0 のとき自動値
+  const Fh_total = manualFh ? Fh_manual_total_N : Fh_auto_total;
+  const Fh = Fh_total / nCol;
+
+  const section = resolveSection(
+    input.sections,
+    input.family,
+    input.sectionName
+  );
+
+  // ===== 柱の露出部の風（自立のみ：地表〜看板下端、各柱が自身の受風分を負担）=====
+  const postLen =
+    signType === "freestanding"
+      ? Math.max(0, input.cgHeight - input.height / 2)
+      : 0;
+  const postWidth = sectionProjectedWidth(section, input.bendAxis);
+  const postCf = pickCf(
+    section?.family === "PIPE" || section?.family === "ROUND"
+      ? "CYLINDER"
+      : section?.family === "SHS"
+      ? "BOX"
+      : "MEMBER_FLAT",
+    input.shapeCf,
+    { width: postWidth, height: postLen, topHeight: postLen, porosity: 0, qz }
+  );
+  const w_post = qz * postCf.Cf * postWidth; // N/m
+  const Fh_post = w_post * postLen; // N
+  const M_post = (Fh_post * postLen) / 2; // N·m（等分布の合力は露出長の中央）
+
+  // ===== 荷重ケース（1本・1基あたり）=====
+  // W：看板面（入力Fh > 0 のときはその値、腕長は帯分割時 zR）＋柱の露出部
+  // K：入力Fh > 0 のときは入力Fh に含まれるものとして省略
+  // KV：鉛直震度（自重 × KV、下向きを正）。組合せでは上下両方向（±KV）を検定する
+  // S：看板上面の積雪
+  // 袖・壁付はブラケットへ配分（水平力は腕長の曲げ、鉛直力は上下の偶力、壁付の風は引張）
+  const Fw_all = manualFh ? Fh_total : Fw_total;
+  const Fk_all = manualFh ? 0 : Fk_total;
+  const Fkv_all = manualFh ? 0 : Wself_total * seismic.KV;
+  const snow = snowLoad(input);
+  const vertical = (Pv_total: number): LoadEffect =>
+    bracket
+      ? bracketVertical(bracket, Pv_total)
+      : { V: 0, M: 0, N: Pv_total / nCol, P: 0 };
+  const horizontal = (F_total: number, lever: number): LoadEffect =>
+    bracket
+      ? bracketHorizontal(bracket, F_total, false)
+      : { V: F_total / nCol, M: (F_total / nCol) * lever, N: 0, P: 0 };
+
+  const lever_W = strips && !manualFh ? zR : input.cgHeight;
+  const W_panel = bracket
+    ? bracketHorizontal(bracket, Fw_all, signType === "wall")
+    : horizontal(Fw_all, lever_W);
+  const M_panel = W_panel.M;
+  const cases: LoadCase[] = [
+    {
+      id: "G",
+      label:
+        signType === "projecting" ? "固定（自重・偏心）" : "固定（看板自重）",
+      ...vertical(Wself_total),
+    },
+    {
+      id: "W",
+      label: manualFh ? "風（入力Fh）" : "風",
+      ...addEffects(W_panel, { V: Fh_post, M: M_post, N: 0, P: 0 }),
+    },
+    {
+      id: "K",
+      label: "地震（水平）",
+      ...horizontal(Fk_all, input.cgHeight),
+    },
+    { id: "KV", label: "地震（鉛直・下向き）", ...vertical(Fkv_all) },
+    { id: "S", label: "積雪", ...vertical(snow.S_total) },
+  ];
+  const combos = buildLoadCombos(cases, snow.multi);
+
+  // 表示用：柱脚モーメント最大の組合せ
+  const maxM = governing(
+    combos,
+    (c) => c,
+    (c) => Math.abs(c.M)
+  ).item;
+  const V_base = maxM.V;
+  const M = maxM.M;
+
+  // ===== 部材検定（1本あたり・組合せごと：軸力＋曲げ）=====
+  // 斜め風で向きが変わるのは柱の露出部の風のみ（看板面の風は面に直交）
+  const column = checkColumn(
+    section,
+    combos,
+    input,
+    (c) => caseFactor(c, "W") * M_post
+  );
+  const etaColumn = column.eta;
+
+  // ===== 頂部たわみ（自立のみ・風 W ケース）=====
+  const deflection =
+    signType === "freestanding"
+      ? topDeflection(section, input, {
+          H: signTopHeight(input.cgHeight, input.height),
+          F: W_panel.V,
+          lever: lever_W,
+          w_post,
+          postLen,
+        })
+      : null;
+
+  // ===== アンカー（1本あたりの N・M で検定）=====
+  const anchor = resolveAnchor(signType, input.anchors, input.anchorName);
+
+  // 配置（格子・外周・円周・座標指定）：引張は剛なプレートの釣合い、せん断は本数で等分
+  const layout = anchorLayout(input);
+  const nAnchor = Math.max(1, layout.points.length);
+  const spacingMin = minAnchorSpacing(layout.points);
+
+  // プレート（B × D）とコンクリート支圧：中立軸を求めてアンカー引張を出す
+  const plateDims = {
+    B: Math.max(0, Number(input.plateB) || 0) * 1000,
+    D: Math.max(0, Number(input.plateD) || 0) * 1000,
+    Ab: (Math.PI * anchor.d * anchor.d) / 4,
+  };
+  const analyze = (c: LoadCombo) =>
+    basePlateAnalysis(
+      plateNormalForce(signType, c),
+      c.M,
+      layout.points,
+      plateDims
+    );
+
+  const d = anchor.d;
+  const minEdge = anchor.min_e ?? Math.round(1.5 * d);
+  const minSpace = anchor.min_s ?? Math.round(3 * d);
+  const edge1OK = input.edge1 >= minEdge;
+  const edge2OK = signType === "projecting" ? true : input.edge2 >= minEdge;
+  const spacingOK = input.spacing >= minSpace && spacingMin >= minSpace;
+  const edgeOK = edge1OK && edge2OK;
+  // 1本・1列（Σy² = 0）でプレート支圧も効かない組合せは M を負担できない
+  const momentOK = combos.every((c) => analyze(c).momentOK);
+
+  // アンカー：コンクリート側引張耐力（投影面積法・短期）は組合せの引張分布ごとに算定
+  const hef = Number(input.anchorEmbed) || 0;
+
+  // 長期はカタログ値（短期）の 1/1.5、引張・せん断は選択した相互作用式で合成
+  const interaction = input.anchorInteraction || "LINEAR";
+  const evalAnchor = (c: LoadCombo) => {
+    const k = TERM_ALLOW_FACTOR[c.term];
+    const { list: T_each } = analyze(c);
+    const Tmax = Math.max(...T_each.map((o) => Math.max(0, o.T)), 0);
+    const breakout = concreteBreakout(
+      input,
+      T_each,
+      Number(input.Fc) || 0,
+      hef
+    );
+    const Ta_conc = breakoutPerAnchor(breakout, Tmax);
+    const V_anchor = c.V / nAnchor;
+    // 引抜き・側方破裂・プライアウト・縁端破壊を含むモード別の検定
+    const concrete = anchorConcreteModes(
+      input,
+      anchor,
+      T_each,
+      Number(input.Fc) || 0,
+      hef
+    );
+    const { modes, Ta_eff, Va_eff, governingMode } = anchorModeChecks(
+      anchor,
+      concrete,
+      Ta_conc,
+      nAnchor,
+      Tmax,
+      V_anchor,
+      k
+    );
+    const t = Ta_eff > 0 ? Tmax / Ta_eff : Infinity;
+    const v = Va_eff > 0 ? V_anchor / Va_eff : 0;
+    return {
+      T_each,
+      Tmax,
+      breakout,
+      Ta_conc,
+      V_anchor,
+      concrete,
+      modes,
+      governingMode,
+      Ta_eff,
+      Va_eff,
+      etaSteel: anchor.Ta > 0 ? Tmax / (anchor.Ta * k) : Infinity,
+      etaConc: Ta_conc > 0 ? Tmax / (Ta_conc * k) : Infinity,
+      etaLinear: t + v,
+      etaCombined: anchorInteractionEta(interaction, t, v),
+    };
+  };
+  const ancGov = governing(combos, evalAnchor, (o) => o.etaCombined);
+  const etaCombined = ancGov.result.etaCombined;
+
+  // ===== 袖看板の自重偏心（G：長期、G+W：短期）=====
+  // 自重は壁面から腕長だけ離れて作用し、常時の壁面モーメント Wself·arm と鉛直せん断を生じる
+  const gravity = (() => {
+    if (signType !== "projecting" || !bracket) return null;
+    const G_case = cases.find((c) => c.id === "G") as LoadCase;
+    const pick = (id: string) => {
+      const c = combos.find((o) => o.id === id);
+      if (!c) return null;
+      const r = evalAnchor(c);
+      return { Tmax: r.Tmax, V_anchor: r.V_anchor, eta: r.etaCombined };
+    };
+    return {
+      W: Wself_total,
+      arm: bracket.arm,
+      M: Wself_total * bracket.arm,
+      couple: bracket.couple,
+      P: G_case.P,
+      V: G_case.V,
+      G: pick("G"),
+      GW: pick("G+W"),
+    };
+  })();
+
+  const hefReq = hefRequired(signType, anchor);
+  const hefOK = input.anchorEmbed >= hefReq;
+
+  // ===== ベースプレート曲げ（1本あたり）=====
+  const a_mm = Math.max(10, input.a_clear);
+  const s_mm = Math.max(40, layout.rowPitch);
+  const plateGov = governing(
+    combos,
+    (c) => {
+      const { list } = analyze(c);
+      const T_row = Math.max(...list.filter((o) => o.y > 0).map((o) => o.T), 0);
+      const t_req = computePlateThickness(
+        T_row,
+        a_mm,
+        s_mm,
+        input.plateFy,
+        c.term
+      );
+      return { T_row, t_req };
+    },
+    (o) => o.t_req
+  );
+  const { T_row, t_req } = plateGov.result;
+  const plateOK = input.plateT >= t_req;
+
+  // コンクリート支圧（長期 0.25Fc、短期 ×1.5）
+  const bearingGov = governing(
+    combos,
+    (c) => {
+      const r = analyze(c);
+      const fc =
+        0.25 * Math.max(0, Number(input.Fc) || 0) * termBearingFactor(c.term);
+      const eta = r.sigma_c > 0 ? (fc > 0 ? r.sigma_c / fc : Infinity) : 0;
+      return { ...r, fc, eta };
+    },
+    (o) => o.eta
+  );
+  const bearing = {
+    combo: bearingGov.item.id,
+    term: bearingGov.item.term,
+    N: plateNormalForce(signType, bearingGov.item),
+    M: bearingGov.item.M,
+    B: plateDims.B,
+    D: plateDims.D,
+    mode: bearingGov.result.mode,
+    xn: bearingGov.result.xn,
+    sigma_c: bearingGov.result.sigma_c,
+    fc: bearingGov.result.fc,
+    eta: bearingGov.result.eta,
+    ok: bearingGov.result.eta <= 1,
+  };
+
+  // ===== 基礎（自立のみ・1本あたり・全組合せ）=====
+  const fnd =
+    signType === "freestanding"
+      ? evalFoundationCombos(
+          input,
+          combos,
+          input.footB,
+          input.footD,
+          input.footH
+        )
+      : null;
+  const foundation = fnd ? fnd.foundation : null;
+  const foundationOK = signType !== "freestanding" || (foundation?.ok ?? false);
+
+  // ===== 総合 =====
+  const unresolved = sectionUnresolved(section);
+  const overallOK =
+    !unresolved &&
+    etaColumn < 1 &&
+    column.shear.eta < 1 &&
+    column.slenderOK &&
+    (deflection?.ok ?? true) &&
+    etaCombined < 1 &&
+    foundationOK &&
+    edgeOK &&
+    spacingOK &&
+    momentOK &&
+    plateOK &&
+    bearing.ok &&
+    hefOK;
+
+  return {
+    wind: { panelArea, q0, qz, cf, Fw_total, code, strips, zR, zRWarn },
+    seismic,
+    snow,
+    bracket,
+    gravity,
+    deflection,
+    loads: {
+      Wself_total,
+      Wself_perCol,
+      nCol_raw,
+      nCol,
+      Fh_auto_total,
+      Fh_manual_total_N,
+      Fh_total,
+      Fh,
+      postLen,
+      postWidth,
+      postCf,
+      w_post,
+      Fh_post,
+      M_post,
+      M_panel,
+      V_base,
+      M,
+    },
+    cases,
+    combos,
+    column,
+    anchor: {
+      combo: ancGov.item.id,
+      term: ancGov.item.term,
+      M: ancGov.item.M,
+      V: ancGov.item.V,
+      P: ancGov.item.P,
+      N: plateNormalForce(signType, ancGov.item),
+      spec: anchor,
+      pattern: layout.pattern,
+      n: nAnchor,
+      spacingMin,
+      T_each: ancGov.result.T_each,
+      Tmax: ancGov.result.Tmax,
+      V_anchor: ancGov.result.V_anchor,
+      minEdge,
+      minSpace,
+      edge1OK,
+      edge2OK,
+      edgeOK,
+      spacingOK,
+      momentOK,
+      hef,
+      Ta_conc: ancGov.result.Ta_conc,
+      breakout: ancGov.result.breakout,
+      Ta_eff: ancGov.result.Ta_eff,
+      Va_eff: ancGov.result.Va_eff,
+      etaSteel: ancGov.result.etaSteel,
+      etaConc: ancGov.result.etaConc,
+      etaLinear: ancGov.result.etaLinear,
+      interaction,
+      etaCombined,
+      modes: ancGov.result.modes,
+      governingMode: ancGov.result.governingMode,
+      concrete: ancGov.result.concrete,
+      hefReq,
+      hefOK,
+    },
+    plate: {
+      combo: plateGov.item.id,
+      a_mm,
+      s_mm,
+      T_row,
+      t_req,
+      plateOK,
+      bearing,
+    },
+    foundation,
+    foundationGoverning: fnd ? fnd.governing : null,
+    foundationOK,
+    sectionUnresolved: unresolved,
+    overallOK,
+  };
+}
+
+// What-if（風）：Fh入力・地震・積雪とは独立に、純粋な風（G+W）による部材 η を風速ごとに返す（1本あたり）
+export function whatIfWind(input: SignInput, Vmin = 20, Vmax = 50, step = 2) {
+  const arr: { V: number; eta: number }[] = [];
+  for (let V = Vmin; V <= Vmax; V += step) {
+    const res = calculateSign({
+      ...input,
+      windV0: V,
+      FhInput: 0,
+      seismicC0: 0,
+      seismicMode: "C0",
+      snowDepth: 0,
+    });
+    arr.push({ V, eta: res.column.eta });
+  }
+  return arr;
+}
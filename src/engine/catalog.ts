@@ -0,0 +1,840 @@
+// engine/catalog.ts
+// 内蔵DB（アンカー・鋼材断面）
+import type { AnchorSpec, SectionSpec } from "./types";
+
+export const DEFAULT_ANCHORS: AnchorSpec[] = [
+  {
+    name: "M12 A-BOLT",
+    d: 12,
+    Ta: 12000,
+    Va: 5000,
+    min_e: 18,
+    min_s: 36,
+    hefRec: 150,
+  },
+  {
+    name: "M16 A-BOLT",
+    d: 16,
+    Ta: 22000,
+    Va: 9000,
+    min_e: 24,
+    min_s: 48,
+    hefRec: 200,
+  },
+  {
+    name: "M20 A-BOLT",
+    d: 20,
+    Ta: 35000,
+    Va: 14000,
+    min_e: 30,
+    min_s: 60,
+    hefRec: 250,
+  },
+  {
+    name: "M24 A-BOLT",
+    d: 24,
+    Ta: 51000,
+    Va: 20000,
+    min_e: 36,
+    min_s: 72,
+    hefRec: 300,
+  },
+  {
+    name: "M30 A-BOLT",
+    d: 30,
+    Ta: 75000,
+    Va: 30000,
+    min_e: 45,
+    min_s: 90,
+    hefRec: 380,
+  },
+  {
+    name: "M32 A-BOLT",
+    d: 32,
+    Ta: 90000,
+    Va: 36000,
+    min_e: 48,
+    min_s: 96,
+    hefRec: 420,
+  },
+];
+
+// ===== 自立看板用：ABRアンカー（短期許容） =====
+export const ABR_ANCHORS: AnchorSpec[] = [
+  { name: "M16 ABR", d: 16, Ta: 36.9e3, Va: 21.3e3 },
+  { name: "M20 ABR", d: 20, Ta: 57.6e3, Va: 33.2e3 },
+  { name: "M22 ABR", d: 22, Ta: 71.2e3, Va: 41.1e3 },
+  { name: "M24 ABR", d: 24, Ta: 83.0e3, Va: 47.9e3 },
+  { name: "M27 ABR", d: 27, Ta: 108e3, Va: 62.4e3 },
+  { name: "M30 ABR", d: 30, Ta: 132e3, Va: 76.2e3 },
+  { name: "M33 ABR", d: 33, Ta: 163e3, Va: 94.1e3 },
+  { name: "M36 ABR", d: 36, Ta: 192e3, Va: 111e3 },
+  { name: "M39 ABR", d: 39, Ta: 229e3, Va: 132e3 },
+  { name: "M42 ABR", d: 42, Ta: 263e3, Va: 152e3 },
+  { name: "M45 ABR", d: 45, Ta: 282e3, Va: 163e3 },
+  { name: "M48 ABR", d: 48, Ta: 316e3, Va: 182e3 },
+].map((a) => ({
+  ...a,
+  hefRec: a.d * 20, // 自立は 20d（表示用）
+}));
+
+// A_cm2 は公称寸法からの概算（フィレット・角部 R は無視）
+// Af_cm2・iT_cm（横座屈用：圧縮フランジ＋ウェブ1/6）も公称寸法から算出
+// Aw_cm2・Awy_cm2（せん断：x軸曲げ＝ウェブ、y軸曲げ＝フランジ、角形鋼管 2·t·h、鋼管 A/2）
+export const DEFAULT_SECTIONS: SectionSpec[] = [
+  // ==== H形鋼（よく使いそうなサイズを抜粋） ====
+  {
+    family: "H",
+    name: "H-100×50×5×7",
+    A_cm2: 11.3,
+    Aw_cm2: 4.3,
+    Awy_cm2: 7,
+    Af_cm2: 3.5,
+    iT_cm: 1.32,
+    Zx_cm3: 37.5,
+    Zy_cm3: 5.91,
+    ix_cm: 3.98,
+    iy_cm: 1.12,
+  },
+  {
+    family: "H",
+    name: "H-100×100×6×8",
+    A_cm2: 21.04,
+    Aw_cm2: 5.04,
+    Awy_cm2: 16,
+    Af_cm2: 8,
+    iT_cm: 2.75,
+    Zx_cm3: 75.6,
+    Zy_cm3: 26.7,
+    ix_cm: 4.18,
+    iy_cm: 2.49,
+  },
+  {
+    family: "H",
+    name: "H-125×60×6×8",
+    A_cm2: 16.14,
+    Aw_cm2: 6.54,
+    Awy_cm2: 9.6,
+    Af_cm2: 4.8,
+    iT_cm: 1.57,
+    Zx_cm3: 65.5,
+    Zy_cm3: 9.71,
+    ix_cm: 4.95,
+    iy_cm: 1.32,
+  },
+  {
+    family: "H",
+    name: "H-150×75×5×7",
+    A_cm2: 17.3,
+    Aw_cm2: 6.8,
+    Awy_cm2: 10.5,
+    Af_cm2: 5.25,
+    iT_cm: 1.96,
+    Zx_cm3: 88.8,
+    Zy_cm3: 13.2,
+    ix_cm: 6.11,
+    iy_cm: 1.66,
+  },
+  {
+    family: "H",
+    name: "H-150×150×7×10",
+    A_cm2: 39.1,
+    Aw_cm2: 9.1,
+    Awy_cm2: 30,
+    Af_cm2: 15,
+    iT_cm: 4.13,
+    Zx_cm3: 216,
+    Zy_cm3: 75.1,
+    ix_cm: 6.4,
+    iy_cm: 3.77,
+  },
+  {
+    family: "H",
+    name: "H-175×175×7.5×11",
+    A_cm2: 49.98,
+    Aw_cm2: 11.47,
+    Awy_cm2: 38.5,
+    Af_cm2: 19.25,
+    iT_cm: 4.82,
+    Zx_cm3: 331,
+    Zy_cm3: 112,
+    ix_cm: 7.5,
+    iy_cm: 4.37,
+  },
+  {
+    family: "H",
+    name: "H-200×100×5.5×8",
+    A_cm2: 26.12,
+    Aw_cm2: 10.12,
+    Awy_cm2: 16,
+    Af_cm2: 8,
+    iT_cm: 2.62,
+    Zx_cm3: 181,
+    Zy_cm3: 26.7,
+    ix_cm: 8.23,
+    iy_cm: 2.24,
+  },
+  {
+    family: "H",
+    name: "H-200×200×8×12",
+    A_cm2: 62.08,
+    Aw_cm2: 14.08,
+    Awy_cm2: 48,
+    Af_cm2: 24,
+    iT_cm: 5.51,
+    Zx_cm3: 472,
+    Zy_cm3: 160,
+    ix_cm: 8.62,
+    iy_cm: 5.02,
+  },
+
+  // ==== CT形鋼 ====
+  {
+    family: "CT",
+    name: "CT-50×50×5×7",
+    A_cm2: 5.65,
+    Aw_cm2: 2.15,
+    Awy_cm2: 3.5,
+    Af_cm2: 3.5,
+    iT_cm: 1.38,
+    Zx_cm3: 3.18,
+    Zy_cm3: 2.96,
+    ix_cm: 1.41,
+    iy_cm: 1.12,
+  },
+  {
+    family: "CT",
+    name: "CT-75×75×5×7",
+    A_cm2: 8.65,
+    Aw_cm2: 3.4,
+    Awy_cm2: 5.25,
+    Af_cm2: 5.25,
+    iT_cm: 2.06,
+    Zx_cm3: 7.46,
+    Zy_cm3: 6.6,
+    ix_cm: 2.18,
+    iy_cm: 1.66,
+  },
+  {
+    family: "CT",
+    name: "CT-100×100×5.5×8",
+    A_cm2: 13.06,
+    Aw_cm2: 5.06,
+    Awy_cm2: 8,
+    Af_cm2: 8,
+    iT_cm: 2.75,
+    Zx_cm3: 14.8,
+    Zy_cm3: 13.4,
+    ix_cm: 2.93,
+    iy_cm: 2.24,
+  },
+  {
+    family: "CT",
+    name: "CT-125×125×6×9",
+    A_cm2: 18.21,
+    Aw_cm2: 6.96,
+    Awy_cm2: 11.25,
+    Af_cm2: 11.25,
+    iT_cm: 3.44,
+    Zx_cm3: 25.6,
+    Zy_cm3: 23.5,
+    ix_cm: 3.66,
+    iy_cm: 2.82,
+  },
+  {
+    family: "CT",
+    name: "CT-150×150×6.5×9",
+    A_cm2: 22.66,
+    Aw_cm2: 9.16,
+    Awy_cm2: 13.5,
+    Af_cm2: 13.5,
+    iT_cm: 4.1,
+    Zx_cm3: 40.0,
+    Zy_cm3: 33.8,
+    ix_cm: 4.45,
+    iy_cm: 3.29,
+  },
+  {
+    family: "CT",
+    name: "CT-175×175×7×11",
+    A_cm2: 30.73,
+    Aw_cm2: 11.48,
+    Awy_cm2: 19.25,
+    Af_cm2: 19.25,
+    iT_cm: 4.82,
+    Zx_cm3: 60.2,
+    Zy_cm3: 51.0,
+    ix_cm: 5.1,
+    iy_cm: 3.95,
+  },
+  {
+    family: "CT",
+    name: "CT-200×200×8×12",
+    A_cm2: 39.04,
+    Aw_cm2: 15.04,
+    Awy_cm2: 24,
+    Af_cm2: 24,
+    iT_cm: 5.49,
+    Zx_cm3: 90.5,
+    Zy_cm3: 76.3,
+    ix_cm: 5.92,
+    iy_cm: 4.5,
+  },
+  {
+    family: "CT",
+    name: "CT-250×250×9×14",
+    A_cm2: 56.24,
+    Aw_cm2: 21.24,
+    Awy_cm2: 35,
+    Af_cm2: 35,
+    iT_cm: 6.88,
+    Zx_cm3: 150.4,
+    Zy_cm3: 126.8,
+    ix_cm: 7.4,
+    iy_cm: 5.6,
+  },
+  {
+    family: "CT",
+    name: "CT-300×300×10×15",
+    A_cm2: 73.5,
+    Aw_cm2: 28.5,
+    Awy_cm2: 45,
+    Af_cm2: 45,
+    iT_cm: 8.24,
+    Zx_cm3: 228.6,
+    Zy_cm3: 193.5,
+    ix_cm: 8.85,
+    iy_cm: 6.72,
+  },
+  {
+    family: "CT",
+    name: "CT-350×350×12×18",
+    A_cm2: 102.84,
+    Aw_cm2: 39.84,
+    Awy_cm2: 63,
+    Af_cm2: 63,
+    iT_cm: 9.61,
+    Zx_cm3: 340.3,
+    Zy_cm3: 285.7,
+    ix_cm: 10.4,
+    iy_cm: 8.05,
+  },
+
+  // ==== L形鋼 ====
+  {
+    family: "L",
+    name: "L-40×40×3",
+    A_cm2: 2.31,
+    Aw_cm2: 1.2,
+    Awy_cm2: 1.2,
+    Zx_cm3: 1.21,
+    Zy_cm3: 1.21,
+    ix_cm: 1.23,
+    iy_cm: 1.23,
+  },
+  {
+    family: "L",
+    name: "L-50×50×4",
+    A_cm2: 3.84,
+    Aw_cm2: 2,
+    Awy_cm2: 2,
+    Zx_cm3: 2.49,
+    Zy_cm3: 2.49,
+    ix_cm: 1.53,
+    iy_cm: 1.53,
+  },
+  {
+    family: "L",
+    name: "L-65×65×6",
+    A_cm2: 7.44,
+    Aw_cm2: 3.9,
+    Awy_cm2: 3.9,
+    Zx_cm3: 6.27,
+    Zy_cm3: 6.27,
+    ix_cm: 1.98,
+    iy_cm: 1.98,
+  },
+  {
+    family: "L",
+    name: "L-75×75×6",
+    A_cm2: 8.64,
+    Aw_cm2: 4.5,
+    Awy_cm2: 4.5,
+    Zx_cm3: 8.47,
+    Zy_cm3: 8.47,
+    ix_cm: 2.3,
+    iy_cm: 2.3,
+  },
+  {
+    family: "L",
+    name: "L-90×90×7",
+    A_cm2: 12.11,
+    Aw_cm2: 6.3,
+    Awy_cm2: 6.3,
+    Zx_cm3: 14.2,
+    Zy_cm3: 14.2,
+    ix_cm: 2.76,
+    iy_cm: 2.76,
+  },
+  {
+    family: "L",
+    name: "L-100×100×8",
+    A_cm2: 15.36,
+    Aw_cm2: 8,
+    Awy_cm2: 8,
+    Zx_cm3: 21.3,
+    Zy_cm3: 21.3,
+    ix_cm: 3.3,
+    iy_cm: 3.3,
+  },
+  {
+    family: "L",
+    name: "L-125×125×9",
+    A_cm2: 21.69,
+    Aw_cm2: 11.25,
+    Awy_cm2: 11.25,
+    Zx_cm3: 36.8,
+    Zy_cm3: 36.8,
+    ix_cm: 4.15,
+    iy_cm: 4.15,
+  },
+  {
+    family: "L",
+    name: "L-150×150×12",
+    A_cm2: 34.56,
+    Aw_cm2: 18,
+    Awy_cm2: 18,
+    Zx_cm3: 70.2,
+    Zy_cm3: 70.2,
+    ix_cm: 5.25,
+    iy_cm: 5.25,
+  },
+  {
+    family: "L",
+    name: "L-200×200×15",
+    A_cm2: 57.75,
+    Aw_cm2: 30,
+    Awy_cm2: 30,
+    Zx_cm3: 144.0,
+    Zy_cm3: 144.0,
+    ix_cm: 6.8,
+    iy_cm: 6.8,
+  },
+  {
+    family: "L",
+    name: "L-250×250×18",
+    A_cm2: 86.76,
+    Aw_cm2: 45,
+    Awy_cm2: 45,
+    Zx_cm3: 254.0,
+    Zy_cm3: 254.0,
+    ix_cm: 8.4,
+    iy_cm: 8.4,
+  },
+
+  // ==== みぞ形鋼（Cチャン） ====
+  {
+    family: "C",
+    name: "みぞ形鋼-75×40×5×7",
+    A_cm2: 8.65,
+    Aw_cm2: 3.05,
+    Awy_cm2: 5.6,
+    Af_cm2: 2.8,
+    iT_cm: 1.06,
+    Zx_cm3: 20.2,
+    Zy_cm3: 4.54,
+    ix_cm: 2.93,
+    iy_cm: 1.19,
+  },
+  {
+    family: "C",
+    name: "みぞ形鋼-100×50×5×7.5",
+    A_cm2: 11.75,
+    Aw_cm2: 4.25,
+    Awy_cm2: 7.5,
+    Af_cm2: 3.75,
+    iT_cm: 1.33,
+    Zx_cm3: 37.8,
+    Zy_cm3: 7.82,
+    ix_cm: 3.98,
+    iy_cm: 1.5,
+  },
+  {
+    family: "C",
+    name: "みぞ形鋼-125×65×6×8",
+    A_cm2: 16.94,
+    Aw_cm2: 6.54,
+    Awy_cm2: 10.4,
+    Af_cm2: 5.2,
+    iT_cm: 1.71,
+    Zx_cm3: 68.0,
+    Zy_cm3: 14.4,
+    ix_cm: 4.99,
+    iy_cm: 1.96,
+  },
+  {
+    family: "C",
+    name: "みぞ形鋼-150×75×6.5×10",
+    A_cm2: 23.45,
+    Aw_cm2: 8.45,
+    Awy_cm2: 15,
+    Af_cm2: 7.5,
+    iT_cm: 1.99,
+    Zx_cm3: 115,
+    Zy_cm3: 23.6,
+    ix_cm: 6.04,
+    iy_cm: 2.27,
+  },
+  {
+    family: "C",
+    name: "みぞ形鋼-200×70×7×10",
+    A_cm2: 26.6,
+    Aw_cm2: 12.6,
+    Awy_cm2: 14,
+    Af_cm2: 7,
+    iT_cm: 1.77,
+    Zx_cm3: 162,
+    Zy_cm3: 21.8,
+    ix_cm: 7.77,
+    iy_cm: 2.04,
+  },
+
+  // ==== リップみぞ形鋼（LC） ====
+  {
+    family: "CLIP",
+    name: "リップみぞ形鋼-60×30×10×1.6",
+    A_cm2: 2.14,
+    Aw_cm2: 0.91,
+    Awy_cm2: 0.96,
+    Zx_cm3: 3.88,
+    Zy_cm3: 1.32,
+    ix_cm: 2.37,
+    iy_cm: 1.11,
+  },
+  {
+    family: "CLIP",
+    name: "リップみぞ形鋼-75×45×15×1.6",
+    A_cm2: 3.02,
+    Aw_cm2: 1.15,
+    Awy_cm2: 1.44,
+    Zx_cm3: 7.24,
+    Zy_cm3: 3.13,
+    ix_cm: 3.03,
+    iy_cm: 1.72,
+  },
+  {
+    family: "CLIP",
+    name: "リップみぞ形鋼-100×50×20×1.6",
+    A_cm2: 3.74,
+    Aw_cm2: 1.55,
+    Awy_cm2: 1.6,
+    Zx_cm3: 11.7,
+    Zy_cm3: 4.36,
+    ix_cm: 3.99,
+    iy_cm: 1.95,
+  },
+  {
+    family: "CLIP",
+    name: "リップみぞ形鋼-100×50×20×3.2",
+    A_cm2: 7.27,
+    Aw_cm2: 3,
+    Awy_cm2: 3.2,
+    Zx_cm3: 21.3,
+    Zy_cm3: 7.81,
+    ix_cm: 3.9,
+    iy_cm: 1.87,
+  },
+  {
+    family: "CLIP",
+    name: "リップみぞ形鋼-120×60×20×3.2",
+    A_cm2: 8.55,
+    Aw_cm2: 3.64,
+    Awy_cm2: 3.84,
+    Zx_cm3: 31.0,
+    Zy_cm3: 10.5,
+    ix_cm: 4.74,
+    iy_cm: 2.22,
+  },
+
+  // ==== I形鋼 ====
+  {
+    family: "I",
+    name: "I-100×75×5×8",
+    A_cm2: 16.2,
+    Aw_cm2: 4.2,
+    Awy_cm2: 12,
+    Af_cm2: 6,
+    iT_cm: 2.05,
+    Zx_cm3: 56.5,
+    Zy_cm3: 12.9,
+    ix_cm: 4.15,
+    iy_cm: 1.72,
+  },
+  {
+    family: "I",
+    name: "I-150×75×5.5×9.5",
+    A_cm2: 21.45,
+    Aw_cm2: 7.21,
+    Awy_cm2: 14.25,
+    Af_cm2: 7.12,
+    iT_cm: 2,
+    Zx_cm3: 109,
+    Zy_cm3: 15.8,
+    ix_cm: 6.13,
+    iy_cm: 1.65,
+  },
+  {
+    family: "I",
+    name: "I-200×100×7×10",
+    A_cm2: 32.6,
+    Aw_cm2: 12.6,
+    Awy_cm2: 20,
+    Af_cm2: 10,
+    iT_cm: 2.63,
+    Zx_cm3: 218,
+    Zy_cm3: 28.4,
+    ix_cm: 8.11,
+    iy_cm: 2.07,
+  },
+  {
+    family: "I",
+    name: "I-250×125×7.5×12.5",
+    A_cm2: 48.12,
+    Aw_cm2: 16.88,
+    Awy_cm2: 31.25,
+    Af_cm2: 15.62,
+    iT_cm: 3.32,
+    Zx_cm3: 415,
+    Zy_cm3: 55.2,
+    ix_cm: 10.3,
+    iy_cm: 2.66,
+  },
+  {
+    family: "I",
+    name: "I-300×150×8×13",
+    A_cm2: 60.92,
+    Aw_cm2: 21.92,
+    Awy_cm2: 39,
+    Af_cm2: 19.5,
+    iT_cm: 3.97,
+    Zx_cm3: 633,
+    Zy_cm3: 80.0,
+    ix_cm: 12.4,
+    iy_cm: 3.12,
+  },
+
+  // ==== 角形鋼管（追加9種類） ====
+  // Z・i は公称寸法から算出（角部 R 無視）
+  {
+    family: "SHS",
+    name: "角形鋼管-50×50×3.2",
+    A_cm2: 5.99,
+    Aw_cm2: 3.2,
+    Awy_cm2: 3.2,
+    Zx_cm3: 8.79,
+    Zy_cm3: 8.79,
+    ix_cm: 1.92,
+    iy_cm: 1.92,
+  },
+  {
+    family: "SHS",
+    name: "角形鋼管-75×75×4.5",
+    A_cm2: 12.69,
+    Aw_cm2: 6.75,
+    Awy_cm2: 6.75,
+    Zx_cm3: 28.1,
+    Zy_cm3: 28.1,
+    ix_cm: 2.88,
+    iy_cm: 2.88,
+  },
+  {
+    family: "SHS",
+    name: "角形鋼管-100×100×4.5",
+    A_cm2: 17.19,
+    Aw_cm2: 9,
+    Awy_cm2: 9,
+    Zx_cm3: 52.4,
+    Zy_cm3: 52.4,
+    ix_cm: 3.9,
+    iy_cm: 3.9,
+  },
+  {
+    family: "SHS",
+    name: "角形鋼管-100×100×6",
+    A_cm2: 22.56,
+    Aw_cm2: 12,
+    Awy_cm2: 12,
+    Zx_cm3: 66.7,
+    Zy_cm3: 66.7,
+    ix_cm: 3.85,
+    iy_cm: 3.85,
+  },
+  {
+    family: "SHS",
+    name: "角形鋼管-125×125×6",
+    A_cm2: 28.56,
+    Aw_cm2: 15,
+    Awy_cm2: 15,
+    Zx_cm3: 108,
+    Zy_cm3: 108,
+    ix_cm: 4.86,
+    iy_cm: 4.86,
+  },
+  {
+    family: "SHS",
+    name: "角形鋼管-150×150×4.5",
+    A_cm2: 26.19,
+    Aw_cm2: 13.5,
+    Awy_cm2: 13.5,
+    Zx_cm3: 123,
+    Zy_cm3: 123,
+    ix_cm: 5.94,
+    iy_cm: 5.94,
+  },
+  {
+    family: "SHS",
+    name: "角形鋼管-200×200×6",
+    A_cm2: 46.56,
+    Aw_cm2: 24,
+    Awy_cm2: 24,
+    Zx_cm3: 292,
+    Zy_cm3: 292,
+    ix_cm: 7.92,
+    iy_cm: 7.92,
+  },
+  {
+    family: "SHS",
+    name: "角形鋼管-200×200×9",
+    A_cm2: 68.76,
+    Aw_cm2: 36,
+    Awy_cm2: 36,
+    Zx_cm3: 419,
+    Zy_cm3: 419,
+    ix_cm: 7.81,
+    iy_cm: 7.81,
+  },
+  {
+    family: "SHS",
+    name: "角形鋼管-250×250×9",
+    A_cm2: 86.76,
+    Aw_cm2: 45,
+    Awy_cm2: 45,
+    Zx_cm3: 673,
+    Zy_cm3: 673,
+    ix_cm: 9.85,
+    iy_cm: 9.85,
+  },
+
+  // ==== 鋼管 PIPE（10種類）====
+  // Z・i は外径・肉厚から算出
+  {
+    family: "PIPE",
+    name: "鋼管-48.6×2.3",
+    A_cm2: 3.35,
+    Aw_cm2: 1.67,
+    Awy_cm2: 1.67,
+    Zx_cm3: 3.7,
+    Zy_cm3: 3.7,
+    ix_cm: 1.64,
+    iy_cm: 1.64,
+  },
+  {
+    family: "PIPE",
+    name: "鋼管-60.5×2.3",
+    A_cm2: 4.21,
+    Aw_cm2: 2.1,
+    Awy_cm2: 2.1,
+    Zx_cm3: 5.9,
+    Zy_cm3: 5.9,
+    ix_cm: 2.06,
+    iy_cm: 2.06,
+  },
+  {
+    family: "PIPE",
+    name: "鋼管-76.3×3.2",
+    A_cm2: 7.35,
+    Aw_cm2: 3.67,
+    Awy_cm2: 3.67,
+    Zx_cm3: 12.9,
+    Zy_cm3: 12.9,
+    ix_cm: 2.59,
+    iy_cm: 2.59,
+  },
+  {
+    family: "PIPE",
+    name: "鋼管-89.1×3.2",
+    A_cm2: 8.64,
+    Aw_cm2: 4.32,
+    Awy_cm2: 4.32,
+    Zx_cm3: 17.9,
+    Zy_cm3: 17.9,
+    ix_cm: 3.04,
+    iy_cm: 3.04,
+  },
+  {
+    family: "PIPE",
+    name: "鋼管-101.6×3.2",
+    A_cm2: 9.89,
+    Aw_cm2: 4.95,
+    Awy_cm2: 4.95,
+    Zx_cm3: 23.6,
+    Zy_cm3: 23.6,
+    ix_cm: 3.48,
+    iy_cm: 3.48,
+  },
+  {
+    family: "PIPE",
+    name: "鋼管-114.3×3.5",
+    A_cm2: 12.18,
+    Aw_cm2: 6.09,
+    Awy_cm2: 6.09,
+    Zx_cm3: 32.7,
+    Zy_cm3: 32.7,
+    ix_cm: 3.92,
+    iy_cm: 3.92,
+  },
+  {
+    family: "PIPE",
+    name: "鋼管-139.8×4.5",
+    A_cm2: 19.13,
+    Aw_cm2: 9.56,
+    Awy_cm2: 9.56,
+    Zx_cm3: 62.7,
+    Zy_cm3: 62.7,
+    ix_cm: 4.79,
+    iy_cm: 4.79,
+  },
+  {
+    family: "PIPE",
+    name: "鋼管-165.2×4.5",
+    A_cm2: 22.72,
+    Aw_cm2: 11.36,
+    Awy_cm2: 11.36,
+    Zx_cm3: 88.9,
+    Zy_cm3: 88.9,
+    ix_cm: 5.68,
+    iy_cm: 5.68,
+  },
+  {
+    family: "PIPE",
+    name: "鋼管-216.3×6.0",
+    A_cm2: 39.64,
+    Aw_cm2: 19.82,
+    Awy_cm2: 19.82,
+    Zx_cm3: 203,
+    Zy_cm3: 203,
+    ix_cm: 7.44,
+    iy_cm: 7.44,
+  },
+  {
+    family: "PIPE",
+    name: "鋼管-267.4×6.6",
+    A_cm2: 54.08,
+    Aw_cm2: 27.04,
+    Awy_cm2: 27.04,
+    Zx_cm3: 344,
+    Zy_cm3: 344,
+    ix_cm: 9.22,
+    iy_cm: 9.22,
+  },
+];
@@ -0,0 +1,194 @@
+// engine/cfCatalog.ts
+// 風力係数 Cf のカタログ（形状のみ：cfMode = "SHAPE_ONLY" 用）
+// 出典は ASCE 7-05 の風力係数図（表番号を各項目の ref に記載）。
+// 寸法は看板の W（幅）・H（高さ）と頂部高さ h を使う（円柱・角柱は W=外径/幅、H=部材長）。
+import type { CfEntryId, CfPick } from "./types";
+
+export type CfGeometry = {
+  width: number; // m
+  height: number; // m
+  topHeight: number; // m（地表から看板頂部まで）
+  porosity: number; // 開口率（0〜1）
+  qz: number; // N/m²（円形断面の D√qz 判定用）
+};
+
+// 直線補間（範囲外は端値）
+function interp(xs: number[], ys: number[], x: number) {
+  if (!(x > xs[0])) return ys[0];
+  for (let i = 1; i < xs.length; i++) {
+    if (x <= xs[i]) {
+      const t = (x - xs[i - 1]) / (xs[i] - xs[i - 1]);
+      return ys[i - 1] + (ys[i] - ys[i - 1]) * t;
+    }
+  }
+  return ys[ys.length - 1];
+}
+
+// ===== 独立看板（中実）：Fig. 6-20 Case A =====
+// 行 = s/h（看板高さ / 頂部高さ。1 は地上接地、小さいほど地上から離れる）
+// 列 = B/s（幅 / 看板高さ）
+const SIGN_BS = [0.05, 0.1, 0.2, 0.5, 1, 2, 4, 5, 10, 20, 30, 45];
+const SIGN_SH = [0.16, 0.2, 0.3, 0.5, 0.7, 0.9, 1.0];
+const SIGN_CF = [
+  [1.95, 1.9, 1.85, 1.85, 1.8, 1.8, 1.85, 1.85, 1.85, 1.9, 1.9, 1.95],
+  [1.95, 1.9, 1.85, 1.8, 1.8, 1.8, 1.8, 1.8, 1.85, 1.9, 1.9, 1.95],
+  [1.95, 1.9, 1.85, 1.8, 1.8, 1.8, 1.8, 1.8, 1.8, 1.85, 1.85, 1.85],
+  [1.95, 1.85, 1.8, 1.75, 1.75, 1.7, 1.7, 1.7, 1.7, 1.7, 1.7, 1.75],
+  [1.9, 1.85, 1.75, 1.7, 1.65, 1.6, 1.6, 1.55, 1.55, 1.55, 1.55, 1.55],
+  [1.85, 1.75, 1.7, 1.6, 1.55, 1.5, 1.45, 1.45, 1.4, 1.4, 1.4, 1.4],
+  [1.8, 1.7, 1.65, 1.55, 1.45, 1.4, 1.35, 1.35, 1.3, 1.3, 1.3, 1.3],
+];
+
+function solidSignCf(g: CfGeometry) {
+  const s = Math.max(g.height, 1e-6);
+  const Bs = g.width / s;
+  const sh = Math.min(1, s / Math.max(g.topHeight, s));
+  const byRow = SIGN_CF.map((row) => interp(SIGN_BS, row, Bs));
+  return {
+    Cf: interp(SIGN_SH, byRow, sh),
+    note: `B/s=${Bs.toFixed(2)}, s/h=${sh.toFixed(2)}`,
+  };
+}
+
+// 充実率 ε = 1 - 開口率
+const solidity = (g: CfGeometry) =>
+  Math.min(1, Math.max(0, 1 - (Number(g.porosity) || 0)));
+
+// ===== 開口看板・ラチス：Fig. 6-22（ε 区分：<0.1 / 0.1〜0.29 / 0.3〜0.7）=====
+const openCf = (eps: number, c: [number, number, number]) =>
+  eps < 0.1 ? c[0] : eps < 0.3 ? c[1] : c[2];
+
+// 円柱の区分：D√qz > 5.3（D[m], qz[N/m²]）は超臨界側
+const roundIsSmooth = (g: CfGeometry) =>
+  g.width * Math.sqrt(Math.max(0, g.qz)) > 5.3;
+
+// ===== 煙突・塔状（Fig. 6-21）：h/D = 1 / 7 / 25 =====
+const TOWER_HD = [1, 7, 25];
+function towerCf(g: CfGeometry, c: number[]) {
+  const hD = g.height / Math.max(g.width, 1e-6);
+  return { Cf: interp(TOWER_HD, c, hD), note: `h/D=${hD.toFixed(2)}` };
+}
+
+type CfEntry = {
+  id: CfEntryId;
+  label: string;
+  ref: string;
+  calc: (g: CfGeometry) => { Cf: number; note: string; areaRatio?: number };
+};
+
+export const CF_CATALOG: CfEntry[] = [
+  {
+    id: "FLAT",
+    label: "平板看板（独立・中実）",
+    ref: "ASCE 7-05 Fig. 6-20 Case A",
+    calc: solidSignCf,
+  },
+  {
+    id: "DOUBLE",
+    label: "両面看板（背合わせ・薄箱）",
+    ref: "ASCE 7-05 Fig. 6-20 Case A（一体の中実板として）",
+    calc: solidSignCf,
+  },
+  {
+    id: "V_SHAPED",
+    label: "V型看板（W=風向直交の投影幅）",
+    ref: "ASCE 7-05 Fig. 6-20 Case A（投影面で準用）",
+    calc: solidSignCf,
+  },
+  {
+    id: "PERFORATED",
+    label: "有孔板・メッシュ（開口率で低減）",
+    ref: "ASCE 7-05 Fig. 6-20 注（ε≧0.7）/ Fig. 6-22（ε<0.7）",
+    calc: (g) => {
+      const eps = solidity(g);
+      if (eps < 0.7) {
+        return {
+          Cf: openCf(eps, [2.0, 1.8, 1.6]),
+          note: `ε=${eps.toFixed(2)}（開口看板・実面積）`,
+          areaRatio: eps,
+        };
+      }
+      const solid = solidSignCf(g);
+      const k = 1 - Math.pow(1 - eps, 1.5);
+      return {
+        Cf: solid.Cf * k,
+        note: `${solid.note}, ε=${eps.toFixed(2)}, 低減 ${k.toFixed(3)}`,
+      };
+    },
+  },
+  {
+    id: "CYLINDER",
+    label: "円柱（W=外径, H=長さ）",
+    ref: "ASCE 7-05 Fig. 6-21（円形・中程度平滑）",
+    calc: (g) => {
+      const smooth = roundIsSmooth(g);
+      const r = towerCf(g, smooth ? [0.5, 0.6, 0.7] : [0.7, 0.8, 1.2]);
+      return { Cf: r.Cf, note: `${r.note}, D√qz${smooth ? ">" : "≦"}5.3` };
+    },
+  },
+  {
+    id: "BOX",
+    label: "角柱・箱型塔（W=見付幅, H=高さ）",
+    ref: "ASCE 7-05 Fig. 6-21（正方形・面直交）",
+    calc: (g) => towerCf(g, [1.3, 1.4, 2.0]),
+  },
+  {
+    id: "LATTICE_FLAT",
+    label: "ラチス架構（平板・形鋼部材）",
+    ref: "ASCE 7-05 Fig. 6-22（flat-sided members）",
+    calc: (g) => {
+      const eps = solidity(g);
+      return {
+        Cf: openCf(eps, [2.0, 1.8, 1.6]),
+        note: `ε=${eps.toFixed(2)}（実面積）`,
+        areaRatio: eps,
+      };
+    },
+  },
+  {
+    id: "LATTICE_ROUND",
+    label: "ラチス架構（丸鋼・鋼管部材）",
+    ref: "ASCE 7-05 Fig. 6-22（round members, D√qz≦5.3）",
+    // 部材径は入力しないため、Cf の大きい D√qz≦5.3 側を用いる
+    calc: (g) => {
+      const eps = solidity(g);
+      return {
+        Cf: openCf(eps, [1.2, 1.3, 1.5]),
+        note: `ε=${eps.toFixed(2)}（実面積）`,
+        areaRatio: eps,
+      };
+    },
+  },
+  {
+    id: "MEMBER_FLAT",
+    label: "形鋼単材（H形・溝形・山形など）",
+    ref: "ASCE 7-05 Fig. 6-22（flat-sided members, ε<0.1）",
+    calc: () => ({ Cf: 2.0, note: "単材" }),
+  },
+];
+
+/**
+ * 採用 Cf を決める。MANUAL（またはカタログに無い id）は shapeCf をそのまま使う。
+ */
+export function pickCf(id: CfEntryId, shapeCf: number, g: CfGeometry): CfPick {
+  const e = CF_CATALOG.find((c) => c.id === id);
+  if (!e) {
+    return {
+      id: "MANUAL",
+      label: "手入力",
+      ref: "",
+      Cf: shapeCf,
+      areaRatio: 1,
+      note: "",
+    };
+  }
+  const r = e.calc(g);
+  return {
+    id: e.id,
+    label: e.label,
+    ref: e.ref,
+    Cf: r.Cf,
+    areaRatio: r.areaRatio ?? 1,
+    note: r.note,
+  };
+}
@@ -0,0 +1,230 @@
+// engine/config.test.ts
+// sign_config.json の保存→読込で全項目・計算結果が変わらないことの検証
+import { describe, expect, test } from "@jest/globals";
+import { DEFAULT_ANCHORS, DEFAULT_SECTIONS } from "./catalog";
+import {
+  configRoundTripDiff,
+  DEFAULT_SIGN_INPUT,
+  signInputFromConfig,
+} from "./config";
+import {
+  CONFIG_APP,
+  CONFIG_FIELDS,
+  CONFIG_SCHEMA_VERSION,
+  parseSignConfig,
+} from "./configSchema";
+import type { ConfigIssue, SignConfigExtras } from "./configSchema";
+import type { SignInput } from "./types";
+
+// 既定値と異なり、かつ検証で補正されない値（全 SignInput 項目）
+const ALT: SignInput = {
+  forceUnit: "kgf",
+  signType: "projecting",
+  width: 4.0,
+  height: 1.5,
+  panelKg: 300,
+  cgHeight: 4.2,
+  areaFactor: 0.9,
+  windV0: 38,
+  windMode: "CODE",
+  terrainCategory: "II",
+  windKz: 1.1,
+  windGf: 1.2,
+  windIw: 1.15,
+  windKd: 0.85,
+  windKt: 1.05,
+  cfMode: "CF_INCLUDES_ALL",
+  shapeCf: 1.8,
+  cfEntry: "FLAT",
+  cfPorosity: 0.3,
+  windStrips: 4,
+  seismicC0: 0.5,
+  seismicMode: "APPENDAGE",
+  seismicZ: 0.9,
+  mountFloor: 3,
+  buildingFloors: 5,
+  rooftop: true,
+  seismicVertical: true,
+  FhInput: 5000,
+  snowDepth: 30,
+  snowUnitW: 30,
+  snowMulti: true,
+  signDepth: 0.5,
+  sections: DEFAULT_SECTIONS.filter((s) => s.family === "H"),
+  family: "PIPE",
+  sectionName: DEFAULT_SECTIONS.filter((s) => s.family === "H")[1].name,
+  bendAxis: "y",
+  Fy: 325,
+  K: 2.0,
+  L: 4.0,
+  Lb: 2.0,
+  Cb: 1.75,
+  windSweep: true,
+  postQty: 2,
+  hasInterPostConnection: false,
+  deflRatio: 150,
+  deflAllowMm: 40,
+  baseRotStiff: 5e6,
+  bracketProjection: 1.2,
+  panelOffset: 0.2,
+  bracketQty: 3,
+  bracketSpacing: 1.0,
+  anchors: DEFAULT_ANCHORS.slice(0, 3),
+  anchorName: "M24 ABR",
+  anchorPattern: "CIRCLE",
+  anchorQty: 6,
+  anchorRows: 3,
+  anchorCols: 3,
+  anchorGauge: 250,
+  anchorPitch: 180,
+  anchorPCD: 320,
+  anchorCoords: [
+    { x: -100, y: -120 },
+    { x: 100, y: -120 },
+    { x: -100, y: 120 },
+    { x: 100, y: 120 },
+  ],
+  anchorInteraction: "ELLIPSE",
+  edge1: 80,
+  edge2: 90,
+  spacing: 150,
+  anchorEmbed: 600,
+  plateFy: 325,
+  a_clear: 90,
+  plateT: 22,
+  plateB: 0.5,
+  plateD: 0.45,
+  footShape: "L",
+  footB: 1.2,
+  footD: 1.0,
+  footH: 1.0,
+  L_t1: 0.3,
+  L_t2: 0.35,
+  embedDepth: 0.9,
+  etaPassive: 0.7,
+  soilUnitW: 17,
+  coverT: 0.2,
+  concUnitW: 23,
+  Fc: 24,
+  soilQa: 200,
+  mu: 0.6,
+  gammaBearing: 1.2,
+  reqFS_OT: 1.2,
+  reqFS_SL: 1.3,
+  allowUpliftOK: true,
+};
+
+// 単独で変えると選定が補正される項目は、整合する値を併せて変える
+const LINKED: Partial<Record<keyof SignInput, Partial<SignInput>>> = {
+  signType: { anchorName: DEFAULT_ANCHORS[1].name },
+};
+
+// 計算入力以外の保存項目
+const ALT_EXTRAS: SignConfigExtras = {
+  pdfSigmaDigits: 2,
+  pdfMDigits: 3,
+  pdfRoundingMode: "ceil",
+  ecc: 0.05,
+  holeClearance: 3,
+  projectName: "駅前広告塔",
+  projectNo: "P-001",
+  rev: "B",
+  author: "設計者",
+  checker: "照査者",
+  approver: "承認者",
+  finishSpec: "溶融亜鉛めっき",
+  concSpec: "Fc24",
+  lawRef: "令90条",
+  siteNotes: "前面道路あり",
+  foundationOptMode: "VOL",
+  windV0Source: "東京都 千代田区",
+  embedDepthAuto: false,
+  usePassive: true,
+  passiveEta: 0.6,
+  frontAvailable: true,
+};
+
+const inputKeys = Object.keys(DEFAULT_SIGN_INPUT) as (keyof SignInput)[];
+const extraKeys = Object.keys(ALT_EXTRAS) as (keyof SignConfigExtras)[];
+
+describe("configRoundTripDiff", () => {
+  test("既定値は往復で不変", () => {
+    expect(configRoundTripDiff(DEFAULT_SIGN_INPUT)).toEqual([]);
+  });
+
+  test.each(inputKeys)(
+    "%s の既定値以外も往復で不変",
+    (key: keyof SignInput) => {
+      expect(JSON.stringify(ALT[key])).not.toBe(
+        JSON.stringify(DEFAULT_SIGN_INPUT[key])
+      );
+      const input = { ...DEFAULT_SIGN_INPUT, [key]: ALT[key], ...LINKED[key] };
+      expect(configRoundTripDiff(input)).toEqual([]);
+    }
+  );
+
+  test("全項目を同時に変えても往復で不変", () => {
+    expect(configRoundTripDiff({ ...ALT, ...LINKED.signType })).toEqual([]);
+  });
+});
+
+describe("parseSignConfig", () => {
+  test("CONFIG_FIELDS は計算入力と保存専用項目のちょうど和", () => {
+    expect(Object.keys(CONFIG_FIELDS).sort()).toEqual(
+      [...inputKeys, ...extraKeys].sort()
+    );
+  });
+
+  test("保存専用項目も書出→読込で欠落・補正なし", () => {
+    const saved = JSON.parse(
+      JSON.stringify({
+        __app: CONFIG_APP,
+        __schema: CONFIG_SCHEMA_VERSION,
+        ...ALT,
+        ...ALT_EXTRAS,
+      })
+    );
+    const { config, issues } = parseSignConfig(saved);
+    expect(issues).toEqual([]);
+    for (const key of extraKeys) expect(config[key]).toEqual(ALT_EXTRAS[key]);
+  });
+});
+
+// UI の設定読込（App applyConfig）と CLI（sign-batch）が共有する変換。
+// App 側は SignInput の全キーを setter 表（型で全キー必須）で state に反映する
+describe("signInputFromConfig", () => {
+  test("欠落キーは既定値で補う", () => {
+    const input = signInputFromConfig({ width: 4.0, footH: 1.2 });
+    expect(input.width).toBe(4.0);
+    expect(input.footH).toBe(1.2);
+    for (const key of inputKeys) {
+      if (key === "width" || key === "footH" || key === "embedDepth") continue;
+      expect(input[key]).toEqual(DEFAULT_SIGN_INPUT[key]);
+    }
+  });
+
+  test("根入れ深さが無ければ H-0.1、保存値があればそのまま", () => {
+    expect(signInputFromConfig({ footH: 1.2 }).embedDepth).toBeCloseTo(1.1, 9);
+    expect(
+      signInputFromConfig({ footH: 1.2, embedDepth: 0.5 }).embedDepth
+    ).toBe(0.5);
+  });
+
+  test("候補に無いアンカーは先頭候補に補正し hef は要件値", () => {
+    const issues: ConfigIssue[] = [];
+    const input = signInputFromConfig(
+      { signType: "projecting", anchorName: "M24 ABR" },
+      issues
+    );
+    expect(input.anchorName).toBe(DEFAULT_ANCHORS[0].name);
+    expect(input.anchorEmbed).toBe(DEFAULT_ANCHORS[0].hefRec);
+    expect(issues.map((i) => i.key)).toEqual(["anchorName"]);
+  });
+
+  test("hef は選定アンカーの要件以上に補正", () => {
+    const issues: ConfigIssue[] = [];
+    const input = signInputFromConfig({ anchorEmbed: 100 }, issues);
+    expect(input.anchorEmbed).toBe(DEFAULT_SIGN_INPUT.anchorEmbed);
+    expect(issues.map((i) => i.key)).toEqual(["anchorEmbed"]);
+  });
+});
@@ -0,0 +1,180 @@
+// engine/config.ts
+import { ABR_ANCHORS, DEFAULT_ANCHORS, DEFAULT_SECTIONS } from "./catalog";
+import { hefRequired, resolveAnchor } from "./anchor";
+import { calculateSign } from "./calculateSign";
+import {
+  CONFIG_APP,
+  CONFIG_MODEL_VER,
+  CONFIG_SCHEMA_VERSION,
+  parseSignConfig,
+} from "./configSchema";
+import type { ConfigIssue, SignConfig } from "./configSchema";
+import type { SignInput } from "./types";
+
+// 既定値（App の初期 state と同一）
+export const DEFAULT_SIGN_INPUT: SignInput = {
+  forceUnit: "N",
+  signType: "freestanding",
+  width: 3.0,
+  height: 2.0,
+  panelKg: 250,
+  cgHeight: 3.5,
+  areaFactor: 1.0,
+  windV0: 34,
+  windMode: "MANUAL",
+  terrainCategory: "III",
+  windKz: 1.0,
+  windGf: 1.0,
+  windIw: 1.0,
+  windKd: 1.0,
+  windKt: 1.0,
+  cfMode: "SHAPE_ONLY",
+  shapeCf: 2.0,
+  cfEntry: "MANUAL",
+  cfPorosity: 0,
+  windStrips: 0,
+  seismicC0: 0.3,
+  seismicMode: "C0",
+  seismicZ: 1.0,
+  mountFloor: 1,
+  buildingFloors: 1,
+  rooftop: false,
+  seismicVertical: false,
+  FhInput: 0,
+  snowDepth: 0,
+  snowUnitW: 20,
+  snowMulti: false,
+  signDepth: 0.3,
+  sections: DEFAULT_SECTIONS,
+  family: DEFAULT_SECTIONS[0].family,
+  sectionName: DEFAULT_SECTIONS[0].name,
+  bendAxis: "x",
+  Fy: 235,
+  K: 1.0,
+  L: 3.0,
+  Lb: 0,
+  Cb: 1.0,
+  windSweep: false,
+  postQty: 1,
+  hasInterPostConnection: true,
+  deflRatio: 100,
+  deflAllowMm: 0,
+  baseRotStiff: 0,
+  bracketProjection: 0.9,
+  panelOffset: 0.1,
+  bracketQty: 2,
+  bracketSpacing: 0.8,
+  anchors: DEFAULT_ANCHORS,
+  anchorName: (ABR_ANCHORS.find((a) => a.d === 27) || ABR_ANCHORS[0]).name,
+  anchorPattern: "GRID",
+  anchorQty: 4,
+  anchorRows: 2,
+  anchorCols: 2,
+  anchorGauge: 200,
+  anchorPitch: 160,
+  anchorPCD: 300,
+  anchorCoords: [],
+  anchorInteraction: "LINEAR",
+  edge1: 50,
+  edge2: 50,
+  spacing: 120,
+  anchorEmbed: 27 * 20,
+  plateFy: 235,
+  a_clear: 80,
+  plateT: 16,
+  plateB: 0.4,
+  plateD: 0.4,
+  footShape: "RECT",
+  footB: 0.8,
+  footD: 0.8,
+  footH: 0.8,
+  L_t1: 0.2,
+  L_t2: 0.2,
+  embedDepth: 0.7, // H-0.1 自動追従の初期値
+  etaPassive: 0.5,
+  soilUnitW: 18,
+  coverT: 0.3,
+  concUnitW: 24,
+  Fc: 21,
+  soilQa: 150,
+  mu: 0.5,
+  gammaBearing: 1.0,
+  reqFS_OT: 1.5,
+  reqFS_SL: 1.5,
+  allowUpliftOK: false,
+};
+
+/**
+ * 検証済み設定（parseSignConfig の config）→ SignInput
+ * 欠落キーは既定値で補い、項目間の補正（根入れ深さ・hef 要件）を掛ける
+ * （補正した項目は issues に追記）
+ */
+export function signInputFromConfig(
+  config: Partial<SignConfig>,
+  issues: ConfigIssue[] = []
+): SignInput {
+  const input: SignInput = { ...DEFAULT_SIGN_INPUT };
+  for (const key of Object.keys(DEFAULT_SIGN_INPUT) as (keyof SignInput)[]) {
+    if (config[key] !== undefined) (input as any)[key] = config[key];
+  }
+
+  // 根入れ深さが無い古い設定は H-0.1（UI の自動追従と同じ）
+  if (config.embedDepth === undefined) {
+    input.embedDepth = Math.max(0, input.footH - 0.1);
+  }
+
+  // hef は選定アンカーの要件以上に補正（未保存なら要件値）
+  const pick = resolveAnchor(input.signType, input.anchors, input.anchorName);
+  const minHef = hefRequired(input.signType, pick);
+  if (config.anchorName !== undefined && pick.name !== config.anchorName) {
+    issues.push({
+      key: "anchorName",
+      action: "clamped",
+      message: `${config.anchorName} が候補に無いため ${pick.name} を採用`,
+    });
+  }
+  input.anchorName = pick.name;
+  input.anchorEmbed =
+    config.anchorEmbed !== undefined
+      ? Math.max(minHef, config.anchorEmbed)
+      : minHef;
+  if (
+    config.anchorEmbed !== undefined &&
+    input.anchorEmbed !== config.anchorEmbed
+  ) {
+    issues.push({
+      key: "anchorEmbed",
+      action: "clamped",
+      message: `${config.anchorEmbed} → ${input.anchorEmbed}（hef 要件 ${minHef}mm）`,
+    });
+  }
+
+  return input;
+}
+
+/**
+ * 保存→読込の往復検証：SignInput を sign_config.json 形式で書き出して読み戻し、
+ * 値または計算結果が変わったキーを返す（空配列なら往復で結果不変）
+ */
+export function configRoundTripDiff(input: SignInput): string[] {
+  const saved = JSON.parse(
+    JSON.stringify({
+      __app: CONFIG_APP,
+      __ver: CONFIG_MODEL_VER,
+      __schema: CONFIG_SCHEMA_VERSION,
+      ...input,
+    })
+  );
+  const back = signInputFromConfig(parseSignConfig(saved).config);
+
+  const keys = Object.keys(DEFAULT_SIGN_INPUT) as (keyof SignInput)[];
+  const diff: string[] = keys.filter(
+    (k) => JSON.stringify(input[k]) !== JSON.stringify(back[k])
+  );
+  if (
+    JSON.stringify(calculateSign(input)) !== JSON.stringify(calculateSign(back))
+  ) {
+    diff.push("(result)");
+  }
+  return diff;
+}
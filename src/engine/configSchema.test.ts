@@ -0,0 +1,73 @@
+// engine/configSchema.test.ts
+// 旧版設定のマイグレーションで旧モデルの計算結果が再現されることの検証
+import { describe, expect, test } from "@jest/globals";
+import { calculateSign } from "./calculateSign";
+import { signInputFromConfig } from "./config";
+import { parseSignConfig } from "./configSchema";
+import type { LoadCase } from "./types";
+
+// v9（ブラケット形状なし）の袖看板
+const LEGACY_V9 = {
+  __app: "SignWizard",
+  __schema: 9,
+  signType: "projecting",
+  forceUnit: "N",
+  width: 1.0,
+  height: 3.0,
+  panelKg: 80,
+  windV0: 34,
+  shapeCf: 2.0,
+};
+
+const load = (raw: object) => {
+  const { config, issues } = parseSignConfig(raw);
+  return { input: signInputFromConfig(config), issues };
+};
+const windCase = (raw: object) => {
+  const res = calculateSign(load(raw).input);
+  return {
+    M: (res.cases.find((c) => c.id === "W") as LoadCase).M,
+    Fh_total: res.loads.Fh_total,
+  };
+};
+
+describe("v9 → v10 ブラケット", () => {
+  test.each([
+    [1, true, 1],
+    [2, true, 2],
+    [2, false, 1],
+  ])("postQty=%s・連結=%s → %s基等分・偶力なし", (postQty, connected, qty) => {
+    const raw = {
+      ...LEGACY_V9,
+      postQty,
+      hasInterPostConnection: connected,
+    };
+    const { input, issues } = load(raw);
+    expect(input.bracketQty).toBe(qty);
+    expect(input.bracketSpacing).toBe(0);
+    expect(issues.map((i) => i.key)).toContain("bracketQty");
+
+    // 旧版：M = Fh/nCol × 腕長 0.8m
+    const { M, Fh_total } = windCase(raw);
+    expect(M).toBeCloseTo((Fh_total / qty) * 0.8, 6);
+  });
+
+  test("自立は通知なし", () => {
+    const { issues } = load({ ...LEGACY_V9, signType: "freestanding" });
+    expect(issues.map((i) => i.key)).not.toContain("bracketQty");
+  });
+
+  test("v10 以降の保存値はそのまま", () => {
+    const { input, issues } = load({
+      ...LEGACY_V9,
+      __schema: 10,
+      bracketProjection: 1.2,
+      panelOffset: 0.1,
+      bracketQty: 3,
+      bracketSpacing: 0.6,
+    });
+    expect(input.bracketQty).toBe(3);
+    expect(input.bracketSpacing).toBe(0.6);
+    expect(issues).toEqual([]);
+  });
+});
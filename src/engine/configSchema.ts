@@ -0,0 +1,534 @@
+// engine/configSchema.ts
+// sign_config.json のスキーマ（版管理）と旧版からのマイグレーション
+import { snapPlateT } from "./plate";
+import type { AnchorPoint, AnchorSpec, SectionSpec, SignInput } from "./types";
+
+/**
+ * スキーマ版数（__schema）
+ * 0: 初期版（__ver なし、風速キー V0）
+ * 1: __ver = "B-Fc36-ABR-20D-PLT-SELECT-PASSIVE"
+ * 2: __schema 番号を付与（__ver は計算モデル名として残す）
+ * 3: 風係数 Kz〜Kt・cfMode・基礎形状/土被り・根入れ自動追従などを保存
+ * 4: 風圧算定モード windMode・地表面粗度区分 terrainCategory（告示1454号）
+ * 5: V0 の出典市町村 windV0Source（空文字 = 手入力）
+ * 6: Cf カタログ項目 cfEntry・開口率 cfPorosity
+ * 7: 高さ方向の風圧分割数 windStrips
+ * 8: 積雪 snowDepth・snowUnitW・snowMulti、看板の奥行 signDepth
+ * 9: 付属物の震度 seismicMode・seismicZ・mountFloor・buildingFloors・rooftop、鉛直震度 seismicVertical
+ * 10: ブラケット形状 bracketProjection・panelOffset・bracketQty・bracketSpacing（袖・壁付）
+ * 11: 横座屈長さ Lb・モーメント勾配補正 Cb
+ * 12: 斜め風の 2軸曲げ検定 windSweep
+ * 13: 頂部たわみ deflRatio・deflAllowMm・柱脚回転剛性 baseRotStiff
+ * 14: アンカー配置 anchorPattern・anchorRows・anchorCols・anchorPCD・anchorCoords
+ * 15: アンカーの引張・せん断の相互作用式 anchorInteraction
+ */
+export const CONFIG_SCHEMA_VERSION = 15;
+export const CONFIG_APP = "SignWizard";
+export const CONFIG_MODEL_VER = "B-Fc36-ABR-20D-PLT-SELECT-PASSIVE";
+
+// 計算入力以外に保存する項目（表示・PDF・AI最適化）
+export type SignConfigExtras = {
+  pdfSigmaDigits: number;
+  pdfMDigits: number;
+  pdfRoundingMode: string;
+  ecc: number; // m
+  holeClearance: number; // mm
+  projectName: string;
+  projectNo: string;
+  rev: string;
+  author: string;
+  checker: string;
+  approver: string;
+  finishSpec: string;
+  concSpec: string;
+  lawRef: string;
+  siteNotes: string;
+  foundationOptMode: string;
+  windV0Source: string; // V0 表の "都道府県 市町村"（空文字 = 手入力）
+  embedDepthAuto: boolean; // z を H-0.1 に自動追従させるか
+  usePassive: boolean;
+  passiveEta: number;
+  frontAvailable: boolean;
+};
+
+export type SignConfig = SignInput & SignConfigExtras;
+
+export type ConfigIssue = {
+  key: string;
+  action: "rejected" | "clamped" | "ignored" | "migrated";
+  message: string;
+};
+
+type FieldSpec =
+  | {
+      type: "number";
+      min?: number;
+      max?: number;
+      int?: boolean;
+      snap?: (v: number) => number;
+    }
+  | { type: "string" }
+  | { type: "boolean" }
+  | { type: "enum"; values: string[] }
+  | { type: "anchors" }
+  | { type: "sections" }
+  | { type: "points" };
+
+const num = (min?: number, max?: number): FieldSpec => ({
+  type: "number",
+  min,
+  max,
+});
+const int = (min?: number, max?: number): FieldSpec => ({
+  type: "number",
+  min,
+  max,
+  int: true,
+});
+const str: FieldSpec = { type: "string" };
+const bool: FieldSpec = { type: "boolean" };
+const oneOf = (...values: string[]): FieldSpec => ({ type: "enum", values });
+
+// ===== 全保存項目の型・範囲 =====
+export const CONFIG_FIELDS: Record<keyof SignConfig, FieldSpec> = {
+  forceUnit: oneOf("N", "kgf"),
+  signType: oneOf("freestanding", "projecting", "wall"),
+
+  width: num(0),
+  height: num(0),
+  panelKg: num(0),
+  cgHeight: num(0),
+  areaFactor: num(0),
+
+  windV0: num(0),
+  windMode: oneOf("MANUAL", "CODE"),
+  terrainCategory: oneOf("I", "II", "III", "IV"),
+  windKz: num(0),
+  windGf: num(0),
+  windIw: num(0),
+  windKd: num(0),
+  windKt: num(0),
+  cfMode: oneOf("SHAPE_ONLY", "CF_INCLUDES_ALL"),
+  shapeCf: num(0),
+  cfEntry: oneOf(
+    "MANUAL",
+    "FLAT",
+    "DOUBLE",
+    "V_SHAPED",
+    "PERFORATED",
+    "CYLINDER",
+    "BOX",
+    "LATTICE_FLAT",
+    "LATTICE_ROUND",
+    "MEMBER_FLAT"
+  ),
+  cfPorosity: num(0, 1),
+  windStrips: int(0, 50),
+  seismicC0: num(0),
+  seismicMode: oneOf("C0", "APPENDAGE"),
+  seismicZ: num(0),
+  mountFloor: int(0),
+  buildingFloors: int(1),
+  rooftop: bool,
+  seismicVertical: bool,
+  FhInput: num(0),
+  snowDepth: num(0),
+  snowUnitW: num(0),
+  snowMulti: bool,
+  signDepth: num(0),
+
+  sections: { type: "sections" },
+  family: str,
+  sectionName: str,
+  bendAxis: oneOf("x", "y"),
+  Fy: num(0),
+  K: num(0),
+  L: num(0),
+  Lb: num(0),
+  Cb: num(1, 2.3),
+  windSweep: bool,
+  postQty: int(1),
+  hasInterPostConnection: bool,
+  deflRatio: num(1),
+  deflAllowMm: num(0),
+  baseRotStiff: num(0),
+  bracketProjection: num(0),
+  panelOffset: num(0),
+  bracketQty: int(1),
+  bracketSpacing: num(0),
+
+  anchors: { type: "anchors" },
+  anchorName: str,
+  anchorPattern: oneOf("GRID", "PERIMETER", "CIRCLE", "CUSTOM"),
+  anchorQty: int(2),
+  anchorRows: int(2),
+  anchorCols: int(1),
+  anchorGauge: num(0),
+  anchorPitch: num(0),
+  anchorPCD: num(0),
+  anchorCoords: { type: "points" },
+  anchorInteraction: oneOf("LINEAR", "ELLIPSE", "POW53", "TRILINEAR"),
+  edge1: num(0),
+  edge2: num(0),
+  spacing: num(0),
+  anchorEmbed: num(0),
+
+  plateFy: num(0),
+  a_clear: num(0),
+  plateT: { type: "number", snap: snapPlateT },
+
+  footShape: oneOf("RECT", "L"),
+  footB: num(0),
+  footD: num(0),
+  footH: num(0),
+  L_t1: num(0),
+  L_t2: num(0),
+  embedDepth: num(0),
+  etaPassive: num(0.1, 1.0),
+  soilUnitW: num(0),
+  coverT: num(0),
+  concUnitW: num(0),
+  Fc: num(0),
+  soilQa: num(0),
+  mu: num(0),
+  gammaBearing: num(0),
+  reqFS_OT: num(0),
+  reqFS_SL: num(0),
+  allowUpliftOK: bool,
+
+  pdfSigmaDigits: int(0, 3),
+  pdfMDigits: int(0, 3),
+  pdfRoundingMode: oneOf("round", "ceil", "floor"),
+  plateB: num(0),
+  ecc: num(0),
+  plateD: num(0),
+  holeClearance: num(0),
+  projectName: str,
+  projectNo: str,
+  rev: str,
+  author: str,
+  checker: str,
+  approver: str,
+  finishSpec: str,
+  concSpec: str,
+  lawRef: str,
+  siteNotes: str,
+  foundationOptMode: oneOf("BD", "VOL"),
+  windV0Source: str,
+  embedDepthAuto: bool,
+  usePassive: bool,
+  passiveEta: num(0, 1.0),
+  frontAvailable: bool,
+};
+
+// ===== マイグレーション（from → from+1）=====
+const MIGRATIONS: {
+  from: number;
+  up: (cfg: any, issues: ConfigIssue[]) => any;
+}[] = [
+  {
+    // v0 → v1：風速キー V0 → windV0
+    from: 0,
+    up: (cfg, issues) => {
+      const { V0, ...rest } = cfg;
+      if (V0 !== undefined && rest.windV0 === undefined) {
+        issues.push({
+          key: "windV0",
+          action: "migrated",
+          message: "旧キー V0 を windV0 として読込",
+        });
+        return { ...rest, windV0: V0 };
+      }
+      return rest;
+    },
+  },
+  {
+    // v1 → v2：__schema 番号を付与（項目は同一）
+    from: 1,
+    up: (cfg) => ({ ...cfg, __schema: 2 }),
+  },
+  {
+    // v2 → v3：z の自動追従フラグが未保存。保存済み z が H-0.1 と一致するときのみ自動追従とみなす
+    //（それ以外は手入力値として固定し、読込後に H から再計算されないようにする）
+    from: 2,
+    up: (cfg, issues) => {
+      if (!Number.isFinite(cfg.embedDepth) || !Number.isFinite(cfg.footH)) {
+        return { ...cfg, __schema: 3 };
+      }
+      const auto =
+        Math.abs(cfg.embedDepth - Math.max(0, cfg.footH - 0.1)) < 1e-9;
+      issues.push({
+        key: "embedDepthAuto",
+        action: "migrated",
+        message: auto
+          ? "z = H-0.1 のため自動追従 ON"
+          : `z = ${cfg.embedDepth} m を手入力値として固定`,
+      });
+      return { ...cfg, embedDepthAuto: auto, __schema: 3 };
+    },
+  },
+  {
+    // v3 → v4：windMode 未保存 = 従来どおり Kz・Gf 手入力（既定値のまま）
+    from: 3,
+    up: (cfg) => ({ ...cfg, __schema: 4 }),
+  },
+  {
+    // v4 → v5：出典なし = 手入力の V0
+    from: 4,
+    up: (cfg) => ({ ...cfg, __schema: 5 }),
+  },
+  {
+    // v5 → v6：cfEntry 未保存 = shapeCf 手入力
+    from: 5,
+    up: (cfg) => ({ ...cfg, __schema: 6 }),
+  },
+  {
+    // v6 → v7：windStrips 未保存 = 分割なし（cgHeight に単一 qz）
+    from: 6,
+    up: (cfg) => ({ ...cfg, __schema: 7 }),
+  },
+  {
+    // v7 → v8：積雪なし（snowDepth 未保存 = 0 と同じ）
+    from: 7,
+    up: (cfg) => ({ ...cfg, __schema: 8 }),
+  },
+  {
+    // v8 → v9：seismicMode 未保存 = 従来どおり C0（水平のみ）
+    from: 8,
+    up: (cfg) => ({ ...cfg, __schema: 9 }),
+  },
+  {
+    // v9 → v10：旧版の固定腕長（袖 0.8m・壁付 0.1m）を出幅・離れで再現する
+    // 旧版は柱本数（連結なしは 1）で等分し偶力なし → 基数 = 旧 nCol、間隔 0（曲げで負担）
+    from: 9,
+    up: (cfg, issues) => {
+      if (cfg.bracketProjection !== undefined) return { ...cfg, __schema: 10 };
+      const arm = cfg.signType === "wall" ? 0.1 : 0.8;
+      const postQty = Number.isFinite(cfg.postQty)
+        ? Math.max(1, Math.floor(cfg.postQty))
+        : 1;
+      const qty = cfg.hasInterPostConnection === false ? 1 : postQty;
+      if (cfg.signType === "projecting" || cfg.signType === "wall") {
+        issues.push({
+          key: "bracketQty",
+          action: "migrated",
+          message: `ブラケットのモデル変更：旧版の腕長 ${arm} m・${qty}基等分（偶力なし）として読込`,
+        });
+      }
+      return {
+        ...cfg,
+        bracketProjection: arm * 2,
+        panelOffset: 0,
+        bracketQty: qty,
+        bracketSpacing: 0,
+        __schema: 10,
+      };
+    },
+  },
+  {
+    // v10 → v11：Lb 未保存 = 0（柱長さ L を横座屈長さとする）、Cb = 1.0
+    from: 10,
+    up: (cfg) => ({ ...cfg, __schema: 11 }),
+  },
+  {
+    // v11 → v12：windSweep 未保存 = bendAxis 方向のみ（1軸曲げ）
+    from: 11,
+    up: (cfg) => ({ ...cfg, __schema: 12 }),
+  },
+  {
+    // v12 → v13：たわみ未保存 = H/100・柱脚固定
+    from: 12,
+    up: (cfg) => ({ ...cfg, __schema: 13 }),
+  },
+  {
+    // v13 → v14：旧版は引張を 2×2（4本）固定で計算。anchorQty を 2行の格子として読む
+    from: 13,
+    up: (cfg, issues) => {
+      if (cfg.anchorPattern !== undefined) return { ...cfg, __schema: 14 };
+      const qty = Number.isFinite(cfg.anchorQty) ? cfg.anchorQty : 4;
+      const cols = Math.max(1, Math.ceil(qty / 2));
+      if (qty !== 4) {
+        issues.push({
+          key: "anchorPattern",
+          action: "migrated",
+          message: `anchorQty=${qty} を 2行×${cols}列の格子配置として読込（旧版の引張は4本で計算）`,
+        });
+      }
+      return {
+        ...cfg,
+        anchorPattern: "GRID",
+        anchorRows: 2,
+        anchorCols: cols,
+        __schema: 14,
+      };
+    },
+  },
+  {
+    // v14 → v15：anchorInteraction 未保存 = 直線式（T/Ta + V/Va）
+    from: 14,
+    up: (cfg) => ({ ...cfg, __schema: 15 }),
+  },
+];
+
+export function detectConfigVersion(cfg: any) {
+  if (Number.isInteger(cfg.__schema)) return cfg.__schema as number;
+  if (cfg.__ver === CONFIG_MODEL_VER) return 1;
+  return 0;
+}
+
+export function migrateConfig(cfg: any, issues: ConfigIssue[] = []) {
+  const fromVersion = detectConfigVersion(cfg);
+  if (fromVersion > CONFIG_SCHEMA_VERSION) {
+    throw new Error(
+      `設定ファイルの版（${fromVersion}）が本アプリ（${CONFIG_SCHEMA_VERSION}）より新しいため読み込めません`
+    );
+  }
+  let out = { ...cfg };
+  for (const m of MIGRATIONS) {
+    if (m.from >= fromVersion) out = m.up(out, issues);
+  }
+  return { config: out, fromVersion };
+}
+
+const isAnchorRow = (o: any) =>
+  o &&
+  typeof o === "object" &&
+  typeof o.name === "string" &&
+  Number.isFinite(o.d) &&
+  Number.isFinite(o.Ta) &&
+  Number.isFinite(o.Va);
+
+const isPointRow = (o: any) =>
+  o && typeof o === "object" && Number.isFinite(o.x) && Number.isFinite(o.y);
+
+const isSectionRow = (o: any) =>
+  o &&
+  typeof o === "object" &&
+  typeof o.family === "string" &&
+  typeof o.name === "string";
+
+// 1項目の検証：{ ok, value } を返し、棄却・補正は issues に記録
+function validateField(
+  key: string,
+  spec: FieldSpec,
+  v: any,
+  issues: ConfigIssue[]
+): { ok: boolean; value?: any } {
+  const reject = (message: string) => {
+    issues.push({ key, action: "rejected", message });
+    return { ok: false };
+  };
+  const clamp = (value: any, message: string) => {
+    issues.push({ key, action: "clamped", message });
+    return { ok: true, value };
+  };
+
+  switch (spec.type) {
+    case "number": {
+      if (!Number.isFinite(v)) return reject(`数値ではありません（${v}）`);
+      let x = v as number;
+      if (spec.int) x = Math.floor(x);
+      if (spec.min !== undefined) x = Math.max(spec.min, x);
+      if (spec.max !== undefined) x = Math.min(spec.max, x);
+      if (spec.snap) x = spec.snap(x);
+      return x === v ? { ok: true, value: v } : clamp(x, `${v} → ${x}`);
+    }
+    case "string":
+      return typeof v === "string"
+        ? { ok: true, value: v }
+        : reject("文字列ではありません");
+    case "boolean":
+      return typeof v === "boolean"
+        ? { ok: true, value: v }
+        : reject("真偽値ではありません");
+    case "enum":
+      return spec.values.indexOf(v) >= 0
+        ? { ok: true, value: v }
+        : reject(`${v} は ${spec.values.join("/")} のいずれでもありません`);
+    case "anchors":
+    case "sections": {
+      if (!Array.isArray(v) || v.length === 0)
+        return reject("空または配列ではありません");
+      const isRow = spec.type === "anchors" ? isAnchorRow : isSectionRow;
+      const rows = v.filter(isRow);
+      if (rows.length === 0) return reject("有効行なし");
+      const list =
+        spec.type === "anchors"
+          ? rows.map(
+              (o: any): AnchorSpec => ({
+                name: o.name,
+                d: o.d,
+                Ta: o.Ta,
+                Va: o.Va,
+                min_e: Number.isFinite(o.min_e) ? o.min_e : undefined,
+                min_s: Number.isFinite(o.min_s) ? o.min_s : undefined,
+                hefRec: Number.isFinite(o.hefRec) ? o.hefRec : undefined,
+                Abrg_mm2: Number.isFinite(o.Abrg_mm2) ? o.Abrg_mm2 : undefined,
+              })
+            )
+          : (rows as SectionSpec[]);
+      return rows.length === v.length
+        ? { ok: true, value: list }
+        : clamp(list, `無効行 ${v.length - rows.length} 件を除外`);
+    }
+    case "points": {
+      if (!Array.isArray(v)) return reject("配列ではありません");
+      const list = v
+        .filter(isPointRow)
+        .map((o: any): AnchorPoint => ({ x: o.x, y: o.y }));
+      return list.length === v.length
+        ? { ok: true, value: list }
+        : clamp(list, `無効行 ${v.length - list.length} 件を除外`);
+    }
+  }
+}
+
+/**
+ * sign_config.json を読込用に変換する。
+ * 1) 版を判定して最新スキーマへマイグレーション
+ * 2) 全項目を型・範囲で検証（棄却・補正・未知キーはすべて issues に列挙）
+ * config には検証を通った項目のみが入る（欠落項目は呼び出し側の現在値／既定値のまま）。
+ */
+export function parseSignConfig(raw: any) {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("設定オブジェクト不正");
+  }
+  if (raw.__app !== undefined && raw.__app !== CONFIG_APP) {
+    throw new Error(
+      `${CONFIG_APP} の設定ファイルではありません（__app=${raw.__app}）`
+    );
+  }
+
+  const issues: ConfigIssue[] = [];
+  const { config: migrated, fromVersion } = migrateConfig(raw, issues);
+
+  const config: Partial<SignConfig> = {};
+  for (const key of Object.keys(migrated)) {
+    if (key.startsWith("__")) continue;
+    const spec = (CONFIG_FIELDS as Record<string, FieldSpec>)[key];
+    if (!spec) {
+      issues.push({ key, action: "ignored", message: "未知の項目" });
+      continue;
+    }
+    const r = validateField(key, spec, migrated[key], issues);
+    if (r.ok) (config as any)[key] = r.value;
+  }
+
+  return { config, issues, fromVersion };
+}
+
+// 読込結果の通知文（UI の alert・CLI の警告で共通）
+export const formatConfigIssues = (issues: ConfigIssue[]) =>
+  issues
+    .map((i) => {
+      const label =
+        i.action === "rejected"
+          ? "棄却"
+          : i.action === "clamped"
+          ? "補正"
+          : i.action === "migrated"
+          ? "移行"
+          : "無視";
+      return `[${label}] ${i.key}: ${i.message}`;
+    })
+    .join("\n");
@@ -0,0 +1,91 @@
+// engine/deflection.ts
+// 自立柱の頂部たわみ（使用性）：片持ち柱、風（W ケース）・1本あたり
+// 看板面の風は合力高さの集中荷重、柱の露出部は等分布荷重、柱脚回転 θ = M/Kθ を加算
+import { sectionOutline, STEEL_E } from "./member";
+import type { DeflectionResult, SectionSpec, SignInput } from "./types";
+
+// 断面二次モーメント [m⁴]：Ix_cm4・Iy_cm4、未設定は Z·(成/2)（非対称断面では安全側）
+export function sectionInertia(s: SectionSpec | undefined, bendAxis: string) {
+  const I_cm4 = bendAxis === "x" ? s?.Ix_cm4 : s?.Iy_cm4;
+  if (I_cm4 && I_cm4 > 0) return { I: I_cm4 * 1e-8, estimated: false };
+  const o = sectionOutline(s);
+  const Z_cm3 = (bendAxis === "x" ? s?.Zx_cm3 : s?.Zy_cm3) ?? 0;
+  const c_cm = o ? (bendAxis === "x" ? o.H_mm : o.B_mm) / 20 : 0;
+  return { I: Z_cm3 * c_cm * 1e-8, estimated: true };
+}
+
+// 片持ち柱の高さ z におけるたわみ [m]（集中荷重 F @ a、等分布 w @ 0〜b）
+function cantileverAt(
+  z: number,
+  EI: number,
+  F: number,
+  a: number,
+  w: number,
+  b: number
+) {
+  const dF =
+    z <= a
+      ? (F * z * z * (3 * a - z)) / (6 * EI)
+      : (F * a * a * (3 * z - a)) / (6 * EI);
+  const dw =
+    z <= b
+      ? (w * z * z * (6 * b * b - 4 * b * z + z * z)) / (24 * EI)
+      : (w * b * b * b * (4 * z - b)) / (24 * EI);
+  return dF + dw;
+}
+
+/**
+ * 看板頂部 H のたわみ δ と変形角 δ/H。許容値は deflAllowMm > 0 のときその値、
+ * それ以外は H / deflRatio。
+ */
+export function topDeflection(
+  section: SectionSpec | undefined,
+  input: Pick<
+    SignInput,
+    "bendAxis" | "deflRatio" | "deflAllowMm" | "baseRotStiff"
+  >,
+  load: {
+    H: number; // m（看板頂部高さ）
+    F: number; // N（看板面の風、1本あたり）
+    lever: number; // m（合力高さ）
+    w_post: number; // N/m（柱の露出部）
+    postLen: number; // m
+  },
+  points = 20
+): DeflectionResult {
+  const { I, estimated } = sectionInertia(section, input.bendAxis);
+  const EI = STEEL_E * 1e6 * I; // N·m²
+  const { H, F, lever, w_post, postLen } = load;
+  const M_base = F * lever + (w_post * postLen * postLen) / 2; // N·m
+  const Ktheta = Math.max(0, Number(input.baseRotStiff) || 0) * 1000; // N·m/rad
+  const theta = Ktheta > 0 ? M_base / Ktheta : 0;
+  const at = (z: number) =>
+    EI > 0 ? cantileverAt(z, EI, F, lever, w_post, postLen) + theta * z : 0;
+
+  const delta = at(H);
+  const ratio = Math.max(1, Number(input.deflRatio) || 100);
+  const allowMm = Math.max(0, Number(input.deflAllowMm) || 0);
+  const allow = allowMm > 0 ? allowMm / 1000 : H / ratio;
+  const shape: { z: number; d: number }[] = [];
+  for (let i = 0; i <= points; i++) {
+    const z = (H * i) / points;
+    shape.push({ z, d: at(z) * 1000 });
+  }
+  return {
+    H,
+    I,
+    estimatedI: estimated,
+    EI,
+    F,
+    lever,
+    w_post,
+    postLen,
+    Ktheta,
+    theta,
+    delta,
+    allow,
+    drift: H > 0 ? delta / H : 0,
+    ok: EI > 0 && delta <= allow,
+    shape,
+  };
+}
@@ -0,0 +1,247 @@
+// engine/foundation.ts
+import { governing, termBearingFactor } from "./loadCombos";
+import type {
+  FoundationGoverning,
+  FoundationResult,
+  LoadCombo,
+  LoadTerm,
+  SignInput,
+} from "./types";
+
+/* ==========================================
+   (D) 根入れ抵抗（受働土圧）を簡易で加味
+   - 転倒：抵抗モーメントに加算
+   - 滑動：抵抗水平力に加算
+   ※地盤定数が無い簡易のため、Kpは代表値（砂質土φ=30°程度）を固定
+   ========================================== */
+export const PASSIVE_SOIL = {
+  Kp: 3.0, // 受働土圧係数の代表値（簡易）
+};
+
+// 基礎に作用する荷重（1本あたり）
+export type FoundationLoad = {
+  M: number; // N·m
+  Fh: number; // N
+  Wself_perCol: number; // N
+  term?: LoadTerm; // 地耐力・支圧の長期/短期（既定：長期）
+  combo?: string;
+};
+
+// ===== 基礎判定（通常計算・AI最適化で完全共有）=====
+// ※(D) 土被り重量 + 根入れ抵抗（受働土圧）を簡易で加味
+export function evalFoundation(
+  input: SignInput,
+  load: FoundationLoad,
+  B: number,
+  D: number,
+  H: number
+): FoundationResult {
+  const { M, Fh, Wself_perCol } = load;
+  const kBearing = termBearingFactor(load.term ?? "long");
+  const { footShape, concUnitW, soilUnitW, coverT, Fc } = input;
+
+  // --- L型対応：有効面積 A を定義（RECT：B*D、L：帯L＝B*t + D*t − t*t） ---
+  const t1 = Math.max(0, Number(input.L_t1) || 0);
+  const t2 = Math.max(0, Number(input.L_t2) || 0);
+
+  // --- L形（片腕・帯）：平面有効面積 ---
+  // A = B·t1 + D·t2 − t1·t2（重なり控除）
+  const A =
+    footShape === "L"
+      ? Math.max(B * t1 + D * t2 - t1 * t2, 1e-9)
+      : Math.max(B * D, 1e-9);
+
+  // 1) 重量用の有効面積：L形は A_weight（矩形はB*D）
+  const A_weight =
+    footShape === "L"
+      ? Math.max(B * t1 + D * t2 - t1 * t2, 1e-9)
+      : Math.max(B * D, 1e-9);
+
+  const Wconc = concUnitW * 1000 * (A_weight * H); // N（kN/m3→N/m3）
+  const Wcover = soilUnitW * 1000 * (A_weight * coverT); // N（土被り）
+  const N = Wconc + Wcover + Wself_perCol; // 合計鉛直力 N
+
+  // 2) 偏心（符号は不要：大きさで判定）
+  const e = Math.abs(M) / Math.max(N, 1e-9); // m
+  const e_lim = B / 6; // ★Bモード：常にB/6
+
+  // 3) 接地状態判定（B方向）
+  let sigma_max = Infinity;
+  let sigma_min = 0;
+  let noUplift = false;
+
+  let contactMode: "full" | "partial" | "none" = "full";
+  let b_eff = B; // 有効接地幅（B方向）
+
+  if (e <= e_lim) {
+    contactMode = "full";
+    b_eff = B;
+  } else if (e < B / 2) {
+    contactMode = "partial";
+    b_eff = Math.max(3 * (B / 2 - e), 0); // 三角分布の等価幅
+  } else {
+    contactMode = "none";
+    b_eff = 0;
+  }
+
+  // 4) 接地圧の評価は B×D を基準に統一（B方向の片圧モデルと整合）
+  const A_full = Math.max(B * D, 1e-9);
+  const A_contact = Math.max(b_eff * D, 1e-9);
+
+  if (contactMode === "full") {
+    const sigma_avg_full = N / A_full; // N/m²
+    sigma_max = sigma_avg_full * (1 + (6 * e) / Math.max(B, 1e-9));
+    sigma_min = sigma_avg_full * (1 - (6 * e) / Math.max(B, 1e-9));
+    noUplift = sigma_min >= 0;
+  } else if (contactMode === "partial") {
+    sigma_max = (2 * N) / A_contact; // N/m²
+    sigma_min = 0;
+    noUplift = false;
+  } else {
+    sigma_max = Infinity;
+    sigma_min = 0;
+    noUplift = false;
+  }
+
+  const qa_allow_soil =
+    (input.soilQa / Math.max(input.gammaBearing, 1e-9)) * kBearing; // kPa
+  const qa_allow_conc = 0.25 * Fc * 1000 * kBearing; // kPa（長期 0.25Fc）
+  const qa_allow_final = Math.min(qa_allow_soil, qa_allow_conc);
+  const bearingOK = isFinite(sigma_max)
+    ? sigma_max / 1000 <= qa_allow_final
+    : false;
+
+  // ===== 根入れ抵抗（受働土圧）=====
+  // 受働土圧合力 Pp = 1/2 * Kp * γ * D * z^2
+  // ここで γ=soilUnitW (kN/m3) を N/m3 に変換
+  const z = Math.max(0, Number(input.embedDepth) || 0); // m
+  const gammaN = soilUnitW * 1000; // N/m3
+  // 受働土圧（低減係数 ηp を考慮）
+  const Pp_raw = z > 0 ? 0.5 * PASSIVE_SOIL.Kp * gammaN * D * z * z : 0; // N
+
+  const Pp = Pp_raw * input.etaPassive; // ★低減後 受働土圧
+  const M_passive = z > 0 ? Pp * (z / 3) : 0; // N·m
+
+  // ===== 転倒 =====
+  // 抵抗モーメント Mr = N*(B/2 - e) + M_passive（浮上り時はB/2-eが小さくなる）
+  const leverArm_OT = Math.max(B / 2 - e, 0); // FS計算と同じレバーアーム
+  const MrN = N * leverArm_OT;
+  const Mr = MrN + M_passive;
+  const FS_OT = Mr / Math.max(Math.abs(M), 1e-9);
+
+  const OT_OK = input.allowUpliftOK
+    ? FS_OT >= input.reqFS_OT
+    : FS_OT >= input.reqFS_OT && noUplift;
+
+  // ===== 滑動（受働抵抗を加味）=====
+  // 浮上り時の有効鉛直力は「接地率」で低減（0.5固定より説明が通る）
+  const contactRatio = B > 0 ? Math.min(Math.max(b_eff / B, 0), 1) : 0;
+  const N_eff = N * contactRatio;
+
+  const R_slide = input.mu * N_eff + Pp; // N（摩擦 + 受働）
+  const FS_SL = R_slide / Math.max(Fh, 1e-9);
+  const SL_OK = FS_SL >= input.reqFS_SL;
+
+  // ===== 総合判定 =====
+  const ok = bearingOK && OT_OK && SL_OK;
+
+  return {
+    combo: load.combo ?? "",
+    ok,
+    N,
+    e,
+    sigma_max,
+    sigma_min,
+    noUplift,
+    qa_allow_soil,
+    qa_allow_conc,
+    qa_allow_final,
+    bearingOK,
+    leverArm_OT,
+    FS_OT,
+    OT_OK,
+    FS_SL,
+    SL_OK,
+
+    // 滑動の注記（接地長連動を明示）
+    slideNote: noUplift
+      ? "滑動: N_eff = N（全面圧縮）"
+      : `滑動: N_eff = N×接地率（接地率 = b_eff/B = ${contactRatio.toFixed(
+          2
+        )}、片圧）`,
+
+    volume: A * H,
+    areaBD: A,
+    B_eff: B,
+    B,
+    D,
+    H,
+    Pp,
+    Pp_raw,
+    M_passive,
+    z,
+    R_slide,
+  };
+}
+
+// 各検定の余裕度（1 以上で NG 相当。浮上り不可の NG は 1 以上に揃える）
+const bearingRatio = (r: FoundationResult) =>
+  r.sigma_max / 1000 / Math.max(r.qa_allow_final, 1e-9);
+const otRatio = (input: SignInput, r: FoundationResult) => {
+  const x = input.reqFS_OT / Math.max(r.FS_OT, 1e-9);
+  return r.OT_OK ? x : Math.max(x, 1);
+};
+const slRatio = (input: SignInput, r: FoundationResult) =>
+  input.reqFS_SL / Math.max(r.FS_SL, 1e-9);
+
+// 支持力・転倒・滑動の最大余裕度（1 未満で OK 相当。AI 最適化の近似解選び）
+export const foundationRatio = (input: SignInput, r: FoundationResult) =>
+  Math.max(bearingRatio(r), otRatio(input, r), slRatio(input, r));
+
+/**
+ * 全組合せで基礎を判定する。foundation は検定ごとの支配組合せの値をまとめたもので、
+ * ok は全組合せの OK、governing は支持力・転倒・滑動それぞれの支配組合せ。
+ */
+export function evalFoundationCombos(
+  input: SignInput,
+  combos: LoadCombo[],
+  B: number,
+  D: number,
+  H: number
+) {
+  const results = combos.map((c) =>
+    evalFoundation(
+      input,
+      { M: c.M, Fh: c.V, Wself_perCol: c.N, term: c.term, combo: c.id },
+      B,
+      D,
+      H
+    )
+  );
+  const pick = (ratio: (r: FoundationResult) => number) =>
+    governing(results, (r) => r, ratio).result;
+
+  const bearing = pick(bearingRatio);
+  const ot = pick((r) => otRatio(input, r));
+  const sl = pick((r) => slRatio(input, r));
+  const gov: FoundationGoverning = {
+    bearing: bearing.combo,
+    OT: ot.combo,
+    SL: sl.combo,
+  };
+  // 接地圧・支持力は支持力の支配組合せ、転倒・滑動はそれぞれの支配組合せの値を載せる
+  return {
+    foundation: {
+      ...bearing,
+      leverArm_OT: ot.leverArm_OT,
+      FS_OT: ot.FS_OT,
+      OT_OK: ot.OT_OK,
+      FS_SL: sl.FS_SL,
+      SL_OK: sl.SL_OK,
+      slideNote: sl.slideNote,
+      R_slide: sl.R_slide,
+      ok: results.every((r) => r.ok),
+    },
+    governing: gov,
+  };
+}
@@ -0,0 +1,22 @@
+// engine/index.ts
+// サイン構造計算エンジン（React 非依存）。UI・PDF・AI自動計算・スクリプトはここから呼ぶ。
+export * from "./types";
+export * from "./units";
+export * from "./catalog";
+export * from "./wind";
+export * from "./windV0Table";
+export * from "./seismic";
+export * from "./snow";
+export * from "./cfCatalog";
+export * from "./member";
+export * from "./sectionGeometry";
+export * from "./deflection";
+export * from "./anchor";
+export * from "./bracket";
+export * from "./plate";
+export * from "./foundation";
+export * from "./loadCombos";
+export * from "./calculateSign";
+export * from "./config";
+export * from "./configSchema";
+export * from "./optimize";
@@ -0,0 +1,165 @@
+// engine/loadCombos.ts
+// 荷重ケース（G・W・K・S）と組合せ（長期 G／短期 G+W・G+K・G+S）
+// 多雪区域は令82条により長期 G+0.7S、短期 G+0.35S+W・G+0.35S+K を加える
+// 鉛直震度 KV を考慮するときは K を含む組合せを上下両方向（+KV 下向き・-KV 上向き）に展開する
+import type {
+  LoadCase,
+  LoadCaseId,
+  LoadCombo,
+  LoadEffect,
+  LoadTerm,
+} from "./types";
+
+// 許容応力度の倍率：長期 F/1.5、短期 F（鋼材・アンカー・プレート共通）
+export const TERM_ALLOW_FACTOR: Record<LoadTerm, number> = {
+  long: 1 / 1.5,
+  short: 1.0,
+};
+// 地盤・コンクリート支圧は入力値（qa・0.25Fc）を長期とし、短期は同じ比（×1.5）で割増
+export const termBearingFactor = (term: LoadTerm) =>
+  TERM_ALLOW_FACTOR[term] / TERM_ALLOW_FACTOR.long;
+
+export const TERM_LABEL: Record<LoadTerm, string> = {
+  long: "長期",
+  short: "短期",
+};
+
+type ComboDef = {
+  terms: [LoadCaseId, number][]; // [ケース, 荷重係数]
+  term: LoadTerm;
+  multiSnow?: boolean; // 多雪区域のみ
+};
+
+const COMBO_DEFS: ComboDef[] = [
+  { terms: [["G", 1]], term: "long" },
+  {
+    terms: [
+      ["G", 1],
+      ["S", 0.7],
+    ],
+    term: "long",
+    multiSnow: true,
+  },
+  {
+    terms: [
+      ["G", 1],
+      ["W", 1],
+    ],
+    term: "short",
+  },
+  {
+    terms: [
+      ["G", 1],
+      ["K", 1],
+    ],
+    term: "short",
+  },
+  {
+    terms: [
+      ["G", 1],
+      ["S", 1],
+    ],
+    term: "short",
+  },
+  {
+    terms: [
+      ["G", 1],
+      ["S", 0.35],
+      ["W", 1],
+    ],
+    term: "short",
+    multiSnow: true,
+  },
+  {
+    terms: [
+      ["G", 1],
+      ["S", 0.35],
+      ["K", 1],
+    ],
+    term: "short",
+    multiSnow: true,
+  },
+];
+
+// 組合せ名："G+K-KV"、係数 1 以外は "0.35S" のように前置
+const comboId = (terms: [LoadCaseId, number][]) =>
+  terms
+    .map(([id, f], i) => {
+      const a = Math.abs(f);
+      return `${f < 0 ? "-" : i > 0 ? "+" : ""}${a === 1 ? "" : a}${id}`;
+    })
+    .join("");
+
+/**
+ * ケース → 組合せ（係数付きの和）。G 以外に荷重 0 のケースを含む組合せは省略する。
+ */
+export function buildLoadCombos(
+  cases: LoadCase[],
+  multiSnow = false
+): LoadCombo[] {
+  const byId = (id: LoadCaseId) => cases.find((c) => c.id === id);
+  const isZero = (c: LoadCase) =>
+    c.V === 0 && c.M === 0 && c.N === 0 && c.P === 0;
+
+  // 鉛直震度：K と同じ係数で ±KV を加えた 2 通り（KV が無い・0 なら K のみ）
+  const kv = byId("KV");
+  const defs: ComboDef[] = [];
+  for (const def of COMBO_DEFS) {
+    const k = def.terms.find(([id]) => id === "K");
+    if (!k || !kv || isZero(kv)) {
+      defs.push(def);
+      continue;
+    }
+    for (const s of [1, -1])
+      defs.push({ ...def, terms: [...def.terms, ["KV", s * k[1]]] });
+  }
+
+  const combos: LoadCombo[] = [];
+  for (const def of defs) {
+    if (def.multiSnow && !multiSnow) continue;
+    const list = def.terms.map(([id]) => byId(id));
+    if (list.some((c) => !c)) continue;
+    const used = list as LoadCase[];
+    if (used.some((c) => c.id !== "G" && isZero(c))) continue;
+    const sum = (k: keyof LoadEffect) =>
+      used.reduce((s, c, i) => s + c[k] * def.terms[i][1], 0);
+    combos.push({
+      id: comboId(def.terms),
+      term: def.term,
+      cases: def.terms.map(([id]) => id),
+      factors: def.terms.map(([, f]) => f),
+      V: sum("V"),
+      M: sum("M"),
+      N: sum("N"),
+      P: sum("P"),
+    });
+  }
+  return combos;
+}
+
+// 組合せ中のケースの荷重係数（含まないときは 0）
+export const caseFactor = (
+  c: Pick<LoadCombo, "cases" | "factors">,
+  id: LoadCaseId
+) => {
+  const i = c.cases.indexOf(id);
+  return i >= 0 ? c.factors[i] : 0;
+};
+
+// 組合せごとの検定から最も厳しいもの（ratio 最大）を選ぶ
+export function governing<C, T>(
+  items: C[],
+  evaluate: (c: C) => T,
+  ratio: (r: T) => number
+) {
+  let best: { item: C; result: T; ratio: number } | null = null;
+  for (const item of items) {
+    const result = evaluate(item);
+    const x = ratio(result);
+    if (!best || x > best.ratio) best = { item, result, ratio: x };
+  }
+  return best as { item: C; result: T; ratio: number };
+}
+
+export const comboLabel = (c: Pick<LoadCombo, "id" | "term">) =>
+  `${c.id}（${TERM_LABEL[c.term]}）`;
@@ -0,0 +1,127 @@
+// engine/member.test.ts
+// 柱の検定（座屈・斜め風・せん断）の検証
+import { describe, expect, test } from "@jest/globals";
+import { DEFAULT_SECTIONS } from "./catalog";
+import { DEFAULT_SIGN_INPUT } from "./config";
+import { calculateSign } from "./calculateSign";
+import {
+  checkColumn,
+  compressAllow,
+  resolveSection,
+  sectionUnresolved,
+} from "./member";
+import type { LoadCombo } from "./types";
+
+const section = (name: string) =>
+  resolveSection(
+    DEFAULT_SECTIONS,
+    (DEFAULT_SECTIONS.find((s) => s.name === name) || { family: "" }).family,
+    name
+  );
+
+const combo = (o: Partial<LoadCombo>): LoadCombo => ({
+  id: "G+W",
+  term: "short",
+  cases: ["G", "W"],
+  factors: [1, 1],
+  V: 0,
+  M: 0,
+  N: 0,
+  P: 0,
+  ...o,
+});
+
+describe("checkColumn 座屈", () => {
+  // 強軸曲げでも座屈は弱軸（iy）の λ で決まる
+  test("H-200×100 の強軸曲げは弱軸 λy で fc・細長比を判定", () => {
+    const s = section("H-200×100×5.5×8");
+    const ix = (s?.ix_cm ?? 0) / 100;
+    const iy = (s?.iy_cm ?? 0) / 100;
+    expect(iy).toBeLessThan(ix);
+
+    const input = { ...DEFAULT_SIGN_INPUT, bendAxis: "x", K: 2.0, L: 3.0 };
+    const col = checkColumn(s, [combo({ N: 10000, M: 1000 })], input);
+    expect(col.r).toBeCloseTo(iy, 9);
+    expect(col.lambda).toBeCloseTo(6.0 / iy, 6);
+    expect(col.lambda).toBeGreaterThan((6.0 / ix) * 3);
+    expect(col.fc).toBeCloseTo(compressAllow(235, 6.0 / iy, "short"), 9);
+    expect(col.fc).toBeLessThan(compressAllow(235, 6.0 / ix, "short") / 2);
+  });
+
+  test("λ > 200 は弱軸のみ超過でも NG", () => {
+    const s = section("H-200×100×5.5×8");
+    const iy = (s?.iy_cm ?? 0) / 100;
+    const L = (200 * iy) / 2.0 + 0.1; // λy が 200 をわずかに超える
+    const input = { ...DEFAULT_SIGN_INPUT, bendAxis: "x", K: 2.0, L };
+    expect(checkColumn(s, [combo({ N: 1000 })], input).slenderOK).toBe(false);
+  });
+});
+
+describe("checkColumn 斜め風", () => {
+  const sweepInput = { ...DEFAULT_SIGN_INPUT, windSweep: true };
+  const W = combo({ M: 20000, N: 2000 });
+
+  test("看板面の風だけなら 0° から変わらない（面に直交のまま）", () => {
+    const s = section("H-200×100×5.5×8");
+    const base = checkColumn(s, [W], DEFAULT_SIGN_INPUT);
+    const sw = checkColumn(s, [W], sweepInput);
+    expect(sw.eta).toBeCloseTo(base.eta, 9);
+    expect(sw.theta).toBe(0);
+  });
+
+  test("露出部の風 Mp は風向に追従し 90° で直交軸に移る", () => {
+    const s = section("H-200×100×5.5×8");
+    const Mp = 3000;
+    const col = checkColumn(s, [W], sweepInput, () => Mp);
+    const at90 = col.sweep?.find((o) => o.theta === 90)?.eta ?? 0;
+    const base = checkColumn(s, [W], DEFAULT_SIGN_INPUT);
+    const Zx = (s?.Zx_cm3 ?? 0) * 1e-6;
+    const Zy = (s?.Zy_cm3 ?? 0) * 1e-6;
+    // 0° との差：bendAxis まわり −Mp/Zx、直交軸まわり +Mp/Zy
+    const dAxis = Mp / Zx / 1e6 / base.sigma_allow;
+    const dCross = Mp / Zy / 1e6 / col.fb_cross;
+    expect(at90).toBeCloseTo(base.eta - dAxis + dCross, 6);
+  });
+
+  test("鋼管は軸対称：合成モーメントで 0° を超えない", () => {
+    const s = section("鋼管-216.3×6.0");
+    const base = checkColumn(s, [W], DEFAULT_SIGN_INPUT);
+    const sw = checkColumn(s, [W], sweepInput, () => 3000);
+    expect(sw.eta).toBeCloseTo(base.eta, 9);
+    for (const o of sw.sweep ?? []) {
+      expect(o.eta).toBeLessThanOrEqual(base.eta + 1e-12);
+    }
+  });
+});
+
+describe("checkShear", () => {
+  test("Aw も断面積も不明なら NG（η = ∞）", () => {
+    const s = { family: "H", name: "不明断面" };
+    const col = checkColumn(s, [combo({ V: 0 })], DEFAULT_SIGN_INPUT);
+    expect(col.shear.Aw).toBe(0);
+    expect(col.shear.eta).toBe(Infinity);
+    expect(col.shear.eta < 1).toBe(false);
+  });
+});
+
+describe("sectionUnresolved", () => {
+  test("DB の断面・寸法から求まる断面は解決済み", () => {
+    expect(sectionUnresolved(section("H-200×100×5.5×8"))).toBe(false);
+    expect(
+      sectionUnresolved({ family: "SHS", name: "角形鋼管-100×100×3.2" })
+    ).toBe(false);
+  });
+
+  test("断面名が読めず性能も無ければ総合 NG", () => {
+    const s = { family: "H", name: "特注柱" };
+    expect(sectionUnresolved(s)).toBe(true);
+    const res = calculateSign({
+      ...DEFAULT_SIGN_INPUT,
+      sections: [s],
+      family: "H",
+      sectionName: "特注柱",
+    });
+    expect(res.sectionUnresolved).toBe(true);
+    expect(res.overallOK).toBe(false);
+  });
+});
@@ -0,0 +1,297 @@
+// engine/member.ts
+import { governing, TERM_ALLOW_FACTOR } from "./loadCombos";
+import { completeSection } from "./sectionGeometry";
+import type {
+  ColumnResult,
+  LoadCombo,
+  LoadTerm,
+  LtbResult,
+  SectionSpec,
+  ShearResult,
+  SignInput,
+} from "./types";
+
+export const STEEL_E = 205000; // N/mm²
+
+// 許容曲げ応力度 [N/mm²]：長期 F/1.5、短期 F
+export const sigmaAllow = (Fy: number, term: LoadTerm = "long") =>
+  Fy * TERM_ALLOW_FACTOR[term];
+
+// 限界細長比 Λ = √(π²E / 0.6F)
+const criticalSlenderness = (Fy: number) =>
+  Math.sqrt((Math.PI * Math.PI * STEEL_E) / (0.6 * Fy));
+
+// 許容せん断応力度 [N/mm²]：長期 F/(1.5√3)、短期 F/√3
+export const shearAllow = (Fy: number, term: LoadTerm = "long") =>
+  sigmaAllow(Fy, term) / Math.sqrt(3);
+
+/**
+ * 許容圧縮応力度 fc [N/mm²]（鋼構造設計規準の座屈曲線）。
+ * λ ≦ Λ：fc = (1 − 0.4(λ/Λ)²)F / ν、ν = 3/2 + 2/3(λ/Λ)²、
+ * λ > Λ：fc = 0.277F / (λ/Λ)²。短期は長期の 1.5 倍。
+ */
+export function compressAllow(
+  Fy: number,
+  lambda: number,
+  term: LoadTerm = "long"
+) {
+  if (!(Fy > 0)) return 0;
+  const x2 = Math.pow(Math.max(0, lambda) / criticalSlenderness(Fy), 2);
+  const fcLong =
+    x2 <= 1 ? ((1 - 0.4 * x2) * Fy) / (1.5 + (2 / 3) * x2) : (0.277 * Fy) / x2;
+  return (fcLong * TERM_ALLOW_FACTOR[term]) / TERM_ALLOW_FACTOR.long;
+}
+
+// 横座屈で fb を低減する開断面（強軸曲げのみ）
+export const LTB_FAMILIES = ["H", "I", "C", "CT"];
+
+/**
+ * 横座屈を考慮した長期許容曲げ応力度（鋼構造設計規準）。
+ * fb1 = (1 − 0.4(lb/i)² / (CΛ²))·ft、fb2 = 89000 / (lb·h/Af)、fb = min(ft, max(fb1, fb2))。
+ * 鋼管・角形鋼管・弱軸曲げなど対象外は null（fb = ft）。
+ */
+export function ltbAllow(
+  s: SectionSpec | undefined,
+  Fy: number,
+  bendAxis: string,
+  lb: number, // m
+  Cb: number
+): LtbResult | null {
+  if (!s || bendAxis !== "x" || LTB_FAMILIES.indexOf(s.family) < 0) return null;
+  if (!(Fy > 0) || !(lb > 0)) return null;
+  const C = Math.min(2.3, Math.max(1, Number(Cb) || 1));
+  const estimated = !(s.iT_cm && s.iT_cm > 0);
+  const iT = (estimated ? s.iy_cm ?? 3 : (s.iT_cm as number)) * 10; // mm
+  const h = s.h_mm ?? sectionOutline(s)?.H_mm ?? 0;
+  const Af = (s.Af_cm2 ?? 0) * 100; // mm²
+  const lb_mm = lb * 1000;
+  const ft = Fy / 1.5;
+  const Lam = criticalSlenderness(Fy);
+  const fb1 = Math.max(
+    0,
+    (1 - (0.4 * Math.pow(lb_mm / iT, 2)) / (C * Lam * Lam)) * ft
+  );
+  const fb2 = h > 0 && Af > 0 ? 89000 / ((lb_mm * h) / Af) : 0;
+  return {
+    lb,
+    C,
+    iT,
+    h,
+    Af,
+    fb1,
+    fb2,
+    fbLong: Math.min(ft, Math.max(fb1, fb2)),
+    estimated,
+  };
+}
+
+// 鋼材種類＋断面名から断面を引く（見つからなければ同種の先頭）。未入力の性能は寸法から補う
+export function resolveSection(
+  sections: SectionSpec[],
+  family: string,
+  sectionName: string
+) {
+  const candidates = sections.filter((s) => s.family === family);
+  return completeSection(
+    candidates.find((s) => s.name === sectionName) || candidates[0]
+  );
+}
+
+// 断面名の外形寸法 [mm]（"H-200×100×5.5×8" → 成 200・幅 100、鋼管・丸鋼は外径）
+export function sectionOutline(s: SectionSpec | undefined) {
+  const m = (s?.name ?? "").match(/(\d+(?:\.\d+)?)(?:[×xX*](\d+(?:\.\d+)?))?/);
+  if (!m) return null;
+  const H_mm = Number(m[1]);
+  const round = s?.family === "PIPE" || s?.family === "ROUND";
+  const B_mm = !round && m[2] !== undefined ? Number(m[2]) : H_mm;
+  return { H_mm, B_mm };
+}
+
+// 風を受ける柱の見付幅 [m]：強軸（x）曲げ＝フランジ幅 B、弱軸（y）曲げ＝成 H
+export function sectionProjectedWidth(
+  s: SectionSpec | undefined,
+  bendAxis: string
+) {
+  const o = sectionOutline(s);
+  if (!o) return 0;
+  return (bendAxis === "x" ? o.B_mm : o.H_mm) / 1000;
+}
+
+/**
+ * 検定に要る断面性能（Zx・Zy・ix・iy・断面積）が DB にも断面名の寸法にも無い。
+ * このとき sectionAxisProps は仮定値で計算するため、総合判定は NG とする。
+ */
+export function sectionUnresolved(s: SectionSpec | undefined) {
+  const c = completeSection(s);
+  if (!c) return true;
+  const props = [c.Zx_cm3, c.Zy_cm3, c.ix_cm, c.iy_cm];
+  const A_cm2 = c.A_cm2 ?? (c.w_kgpm ? c.w_kgpm / 0.785 : 0);
+  return props.some((v) => !(Number(v) > 0)) || !(A_cm2 > 0);
+}
+
+// 曲げ方向に応じた断面係数 Z [m³]・断面二次半径 r [m]・断面積 A [m²]
+// A_cm2 が無いときは単位質量から逆算（鋼 7.85 t/m³）。性能不明は仮定値（sectionUnresolved）
+export function sectionAxisProps(s: SectionSpec | undefined, bendAxis: string) {
+  const Zx = (s?.Zx_cm3 ?? 50) * 1e-6; // m³
+  const Zy = (s?.Zy_cm3 ?? 50) * 1e-6; // m³
+  const ix = (s?.ix_cm ?? 3) * 0.01; // m
+  const iy = (s?.iy_cm ?? 3) * 0.01; // m
+  const A_cm2 = s?.A_cm2 ?? (s?.w_kgpm ? s.w_kgpm / 0.785 : 0);
+  return {
+    Z_axis: bendAxis === "x" ? Zx : Zy,
+    r: bendAxis === "x" ? ix : iy,
+    A: A_cm2 * 1e-4,
+  };
+}
+
+// 斜め風の検討方向 [°]（0 = bendAxis まわりの曲げ、90 = 直交軸まわり）
+export const WIND_SWEEP_ANGLES = [0, 15, 30, 45, 60, 75, 90];
+
+// せん断に有効な断面積 [m²]（未設定は A/2 で概算）
+export function sectionShearArea(s: SectionSpec | undefined, bendAxis: string) {
+  const Aw_cm2 =
+    (bendAxis === "y" ? s?.Awy_cm2 ?? s?.Aw_cm2 : s?.Aw_cm2) ??
+    (sectionAxisProps(s, bendAxis).A * 1e4) / 2;
+  return Aw_cm2 * 1e-4;
+}
+
+/**
+ * 柱・ブラケットのせん断検定（組合せごと、1本あたり）：τ = V / Aw ≦ fs（Aw 不明は NG）。
+ * 斜め風では両軸の小さい方の Aw を用いる（安全側）。
+ */
+export function checkShear(
+  section: SectionSpec | undefined,
+  combos: LoadCombo[],
+  input: Pick<SignInput, "signType" | "bendAxis" | "Fy" | "windSweep">
+): ShearResult {
+  const sweep = input.signType === "freestanding" && !!input.windSweep;
+  const Aw = sweep
+    ? Math.min(sectionShearArea(section, "x"), sectionShearArea(section, "y"))
+    : sectionShearArea(section, input.bendAxis);
+  const gov = governing(
+    combos,
+    (c) => {
+      // Aw 不明（断面積も無い）は検定できないため NG（η = ∞）
+      const tau = Aw > 0 ? Math.abs(c.V) / Aw / 1e6 : Infinity; // N/mm²
+      const fs = shearAllow(input.Fy, c.term);
+      return { tau, fs, eta: tau / fs };
+    },
+    (o) => o.eta
+  );
+  return { combo: gov.item.id, V: gov.item.V, Aw, ...gov.result };
+}
+
+/**
+ * 柱・ブラケットの検定（組合せごと、1本あたり）：
+ * η = σc/fc + σt/ft + σb/fb（fc は弱軸の λ による座屈、fb は横座屈長さ lb による低減）。
+ * 軸力は自立が鉛直力 N（圧縮）、袖・壁付はブラケットの引張 P。
+ * windSweep（自立のみ）：風向 θ を 0〜90° で振る。看板面の風力は風向によらず面に直交
+ * （bendAxis まわり、大きさは正対風のまま＝安全側）とし、風向に追従するのは sweepM
+ *（柱の露出部の風のモーメント）だけ：bendAxis まわり M − Mp(1 − cosθ)、直交軸まわり Mp·sinθ。
+ * 鋼管・丸鋼は軸対称のため 2軸の合成モーメントを Z で割る（σb' = 0）。
+ */
+export function checkColumn(
+  section: SectionSpec | undefined,
+  combos: LoadCombo[],
+  input: Pick<
+    SignInput,
+    "signType" | "bendAxis" | "Fy" | "K" | "L" | "Lb" | "Cb" | "windSweep"
+  >,
+  sweepM: (c: LoadCombo) => number = () => 0
+): ColumnResult {
+  section = completeSection(section);
+  const crossAxis = input.bendAxis === "x" ? "y" : "x";
+  const { Z_axis, A } = sectionAxisProps(section, input.bendAxis);
+  const Z_cross = sectionAxisProps(section, crossAxis).Z_axis;
+  // 座屈は曲げ方向によらず弱軸で決まる：λ = K·L / min(ix, iy)
+  const r = Math.min(
+    sectionAxisProps(section, "x").r,
+    sectionAxisProps(section, "y").r
+  );
+  const lambda = (input.K * input.L) / Math.max(r, 1e-6);
+  const bracket = input.signType !== "freestanding";
+  const sweep = !bracket && !!input.windSweep;
+  const lb = Number(input.Lb) > 0 ? Number(input.Lb) : input.L;
+  // 横座屈は強軸（x）曲げのみ：斜め風では直交軸側が x になることがある
+  const ltb = ltbAllow(
+    section,
+    input.Fy,
+    sweep ? "x" : input.bendAxis,
+    lb,
+    input.Cb
+  );
+  const fbLong = (axis: string) =>
+    ltb && axis === "x" ? ltb.fbLong : sigmaAllow(input.Fy, "long");
+  const stress = (F: number) => (A > 0 ? Math.abs(F) / A / 1e6 : 0); // N/mm²
+  const angles = sweep ? WIND_SWEEP_ANGLES : [0];
+  const axisymmetric =
+    section?.family === "PIPE" || section?.family === "ROUND";
+
+  const evalAt = (c: LoadCombo, theta: number) => {
+    const rad = (theta * Math.PI) / 180;
+    const byTerm = (fLong: number) =>
+      (fLong * TERM_ALLOW_FACTOR[c.term]) / TERM_ALLOW_FACTOR.long;
+    const sigma_c = bracket ? 0 : stress(c.N);
+    const sigma_t = bracket ? stress(c.P) : 0;
+    const Mp = sweep ? sweepM(c) : 0;
+    const M_axis = c.M - Mp * (1 - Math.cos(rad));
+    const M_cross = Mp * Math.sin(rad);
+    const sigma =
+      (axisymmetric ? Math.hypot(M_axis, M_cross) : Math.abs(M_axis)) /
+      Math.max(Z_axis, 1e-12) /
+      1e6; // N/mm²
+    const sigma_cross = axisymmetric
+      ? 0
+      : Math.abs(M_cross) / Math.max(Z_cross, 1e-12) / 1e6;
+    const ft = sigmaAllow(input.Fy, c.term);
+    const sigma_allow = byTerm(fbLong(input.bendAxis));
+    const fb_cross = byTerm(fbLong(crossAxis));
+    const fc = compressAllow(input.Fy, lambda, c.term);
+    const eta =
+      (sigma_c > 0 ? sigma_c / Math.max(fc, 1e-9) : 0) +
+      sigma_t / ft +
+      sigma / Math.max(sigma_allow, 1e-9) +
+      sigma_cross / Math.max(fb_cross, 1e-9);
+    return {
+      theta,
+      sigma_c,
+      fc,
+      sigma_t,
+      ft,
+      sigma,
+      sigma_allow,
+      sigma_cross,
+      fb_cross,
+      eta,
+    };
+  };
+
+  const gov = governing(
+    combos,
+    (c) =>
+      governing(
+        angles,
+        (theta) => evalAt(c, theta),
+        (o) => o.eta
+      ).result,
+    (o) => o.eta
+  );
+  return {
+    combo: gov.item.id,
+    M: gov.item.M,
+    N: bracket ? gov.item.P : gov.item.N,
+    section,
+    Z_axis,
+    Z_cross,
+    r,
+    A,
+    ...gov.result,
+    sweep: sweep
+      ? angles.map((theta) => ({ theta, eta: evalAt(gov.item, theta).eta }))
+      : null,
+    ltb,
+    shear: checkShear(section, combos, input),
+    lambda,
+    slenderOK: lambda <= 200,
+  };
+}
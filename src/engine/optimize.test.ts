@@ -0,0 +1,79 @@
+// engine/optimize.test.ts
+// AI自動計算（autoSelect）の選定が calculateSign の総合判定と一致することの検証
+import { describe, expect, test } from "@jest/globals";
+import { anchorListFor } from "./anchor";
+import { calculateSign } from "./calculateSign";
+import { DEFAULT_SIGN_INPUT } from "./config";
+import { autoSelect } from "./optimize";
+import { completeSection } from "./sectionGeometry";
+import type { SignInput } from "./types";
+
+const OPTS = { foundationOptMode: "BD", embedDepthAuto: true };
+
+// 縁端距離を確保すれば全検定 OK の解がある自立看板
+const FEASIBLE: SignInput = {
+  ...DEFAULT_SIGN_INPUT,
+  windV0: 30,
+  edge1: 400,
+  edge2: 400,
+};
+
+const mass = (input: SignInput, name: string) =>
+  completeSection(input.sections.find((s) => s.name === name))?.w_kgpm ?? 0;
+
+describe("autoSelect", () => {
+  const picked = autoSelect(FEASIBLE, OPTS);
+
+  test("採用案は calculateSign で総合 OK", () => {
+    expect(picked.result.overallOK).toBe(true);
+    expect(picked.foundation?.found).toBe(true);
+    expect(JSON.stringify(picked.result)).toBe(
+      JSON.stringify(calculateSign(picked.input))
+    );
+  });
+
+  test("採用断面より軽い断面は総合 NG", () => {
+    const w = mass(picked.input, picked.input.sectionName);
+    expect(w).toBeGreaterThan(0);
+    for (const s of picked.input.sections) {
+      if (s.family !== picked.input.family) continue;
+      if (mass(picked.input, s.name) >= w) continue;
+      const r = calculateSign({ ...picked.input, sectionName: s.name });
+      expect(r.overallOK).toBe(false);
+    }
+  });
+
+  test("採用アンカーより耐力の小さいアンカーは総合 NG", () => {
+    const { input } = picked;
+    const spec = anchorListFor(input.signType, input.anchors);
+    const Ta = (spec.find((a) => a.name === input.anchorName) || spec[0]).Ta;
+    for (const a of spec) {
+      if (a.Ta >= Ta) continue;
+      for (const anchorCols of [2, 3, 4, 5]) {
+        const r = calculateSign({ ...input, anchorName: a.name, anchorCols });
+        expect(r.overallOK).toBe(false);
+      }
+    }
+  });
+
+  test("たわみで決まる断面を選ぶ（強度だけなら軽い断面で足りる）", () => {
+    const { input, result } = autoSelect(DEFAULT_SIGN_INPUT, OPTS);
+    expect(result.column.eta).toBeLessThan(1);
+    expect(result.deflection?.ok).toBe(true);
+    const w = mass(input, input.sectionName);
+    const lighterStrengthOnly = input.sections.filter((s) => {
+      if (s.family !== input.family || mass(input, s.name) >= w) return false;
+      const r = calculateSign({ ...input, sectionName: s.name });
+      return r.column.eta < 1 && !r.deflection?.ok;
+    });
+    expect(lighterStrengthOnly.length).toBeGreaterThan(0);
+  });
+
+  test("OK 解が無ければ NG のまま最も近い基礎を返す", () => {
+    const { result, foundation } = autoSelect({ ...FEASIBLE, soilQa: 1 }, OPTS);
+    expect(foundation?.found).toBe(false);
+    expect(foundation?.ratio).toBeGreaterThanOrEqual(1);
+    expect(result.foundationOK).toBe(false);
+    expect(result.overallOK).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+// engine/optimize.ts
+// AI自動計算：部材 → 基礎 B・D・H（自立）→ アンカー（種類・本数・hef）→ プレート t の順に選定
+// 各候補は calculateSign で全組合せ・全検定（たわみ・支圧・M 抵抗を含む）を評価し、
+// 軽い順に、その段で決まる検定がすべて OK となる最初の候補を採用する。
+// 基礎の検定はアンカー・プレートに依らないため先に決め、アンカーのコーン破壊（基礎外形で切る）は
+// 決定後の基礎で評価する
+import { anchorListFor, hefRequired } from "./anchor";
+import { calculateSign } from "./calculateSign";
+import { evalFoundationCombos, foundationRatio } from "./foundation";
+import { sectionUnresolved } from "./member";
+import { snapPlateT } from "./plate";
+import { completeSection } from "./sectionGeometry";
+import type {
+  AutoSelectOptions,
+  AutoSelectResult,
+  SectionSpec,
+  SignInput,
+  SignResult,
+} from "./types";
+
+// ===== 段ごとの判定（calculateSign の結果から）=====
+const memberOK = (r: SignResult) =>
+  !r.sectionUnresolved &&
+  r.column.eta < 1 &&
+  r.column.shear.eta < 1 &&
+  r.column.slenderOK &&
+  (r.deflection?.ok ?? true);
+
+const anchorOK = (r: SignResult) =>
+  r.anchor.etaCombined < 1 &&
+  r.anchor.edgeOK &&
+  r.anchor.spacingOK &&
+  r.anchor.momentOK &&
+  r.anchor.hefOK;
+
+// 単位質量 [kg/m]（寸法・断面積からも補う。性能不明は最後）
+function sectionMass(s: SectionSpec) {
+  if (sectionUnresolved(s)) return Infinity;
+  const c = completeSection(s);
+  return c.w_kgpm ?? (c.A_cm2 ?? 0) * 0.785;
+}
+
+// 1) 部材：同じ系列を単位質量の軽い順に（全 NG なら最重量）
+function selectSection(input: SignInput): SignInput {
+  const list = input.sections
+    .filter((s) => s.family === input.family)
+    .sort((a, b) => sectionMass(a) - sectionMass(b));
+  let cand = input;
+  for (const s of list) {
+    cand = { ...input, sectionName: s.name };
+    if (memberOK(calculateSign(cand))) break;
+  }
+  return cand;
+}
+
+// 3) アンカー：耐力の小さい順 × 本数の少ない順（配置パターンはそのまま）
+// hef は各アンカーの要件値。全 NG なら現状のまま
+function selectAnchor(input: SignInput): SignInput {
+  const layouts: Partial<SignInput>[] =
+    input.anchorPattern === "CIRCLE"
+      ? [4, 6, 8, 10].map((q) => ({ anchorQty: q }))
+      : input.anchorPattern === "CUSTOM" && input.anchorCoords.length > 0
+      ? [{}]
+      : [2, 3, 4, 5].map((c) => ({ anchorCols: c }));
+  const list = [...anchorListFor(input.signType, input.anchors)].sort(
+    (a, b) => a.Ta - b.Ta
+  );
+  for (const a of list) {
+    for (const layout of layouts) {
+      const cand: SignInput = {
+        ...input,
+        ...layout,
+        anchorName: a.name,
+        anchorEmbed: hefRequired(input.signType, a),
+      };
+      if (anchorOK(calculateSign(cand))) return cand;
+    }
+  }
+  return input;
+}
+
+// 4) プレート t：t_req + 2mm 以上の採用品（t は他の検定に影響しない）
+function selectPlate(input: SignInput): SignInput {
+  const { t_req } = calculateSign(input).plate;
+  return { ...input, plateT: snapPlateT(t_req + 2) };
+}
+
+// 0.05m 刻みの寸法候補
+function steps(from: number, to: number) {
+  const out: number[] = [];
+  for (let i = Math.round(from / 0.05); i <= Math.round(to / 0.05); i++) {
+    out.push(Number((i * 0.05).toFixed(2)));
+  }
+  return out;
+}
+
+// 2) 基礎（自立のみ）：目的関数の小さい順。基礎の検定は calculateSign と同じ
+// evalFoundationCombos で絞り込み、採用案は calculateSign で確認する。
+// OK 解が無ければ余裕度（foundationRatio）の最も小さい案
+function selectFoundation(input: SignInput, opts: AutoSelectOptions) {
+  const { combos } = calculateSign(input);
+  const score = (B: number, D: number, H: number) =>
+    opts.foundationOptMode === "VOL" ? B * D * H : B * 100 + D * 10 + H;
+  const cands: { B: number; D: number; H: number; score: number }[] = [];
+  for (const B of steps(0.6, 2.0)) {
+    for (const D of steps(0.6, 2.0)) {
+      for (const H of steps(0.4, 2.0)) {
+        cands.push({ B, D, H, score: score(B, D, H) });
+      }
+    }
+  }
+  cands.sort((a, b) => a.score - b.score);
+
+  const withFoot = (B: number, D: number, H: number): SignInput => ({
+    ...input,
+    footB: B,
+    footD: D,
+    footH: H,
+    embedDepth: opts.embedDepthAuto ? Math.max(0, H - 0.1) : input.embedDepth,
+  });
+
+  let near = { input, ratio: Infinity };
+  for (const { B, D, H } of cands) {
+    const cand = withFoot(B, D, H);
+    const f = evalFoundationCombos(cand, combos, B, D, H).foundation;
+    if (f.ok && calculateSign(cand).foundationOK) {
+      return { input: cand, found: true, ratio: foundationRatio(cand, f) };
+    }
+    const ratio = foundationRatio(cand, f);
+    if (ratio < near.ratio) near = { input: cand, ratio };
+  }
+  return { input: near.input, found: false, ratio: near.ratio };
+}
+
+/**
+ * AI自動計算：部材・基礎寸法（自立のみ）・アンカー・プレート t を順に選定する。
+ * 採用案は calculateSign の結果付きで返す（NG が残る場合は result.overallOK が false）。
+ */
+export function autoSelect(
+  input: SignInput,
+  opts: AutoSelectOptions
+): AutoSelectResult {
+  let next = selectSection(input);
+  let foundation: AutoSelectResult["foundation"] = null;
+  if (input.signType === "freestanding") {
+    const f = selectFoundation(next, opts);
+    next = f.input;
+    foundation = { found: f.found, ratio: f.ratio };
+  }
+  next = selectPlate(selectAnchor(next));
+  return { input: next, result: calculateSign(next), foundation };
+}
@@ -0,0 +1,127 @@
+// engine/plate.ts
+import { computeAnchorTensions } from "./anchor";
+import { sigmaAllow } from "./member";
+import type {
+  AnchorPoint,
+  BasePlateAnalysis,
+  BasePlateMode,
+  LoadEffect,
+  LoadTerm,
+  SignType,
+} from "./types";
+
+// ===== ベースプレート板厚（採用品） =====
+export const PLATE_T_OPTIONS = [16, 19, 22, 25, 28, 32, 36];
+export const snapPlateT = (tReq: number) => {
+  for (const t of PLATE_T_OPTIONS) if (t >= tReq) return t;
+  return PLATE_T_OPTIONS[PLATE_T_OPTIONS.length - 1];
+};
+
+// 片持ちストリップ板厚（簡易・集中荷重モデル）
+export function computePlateThickness(
+  T_row: number,
+  a_mm: number,
+  s_mm: number,
+  plateFy: number,
+  term: LoadTerm = "long"
+) {
+  const sigma_a_plate = sigmaAllow(plateFy, term); // N/mm²
+  const m_Nmm_per_mm = (T_row * a_mm) / Math.max(1, s_mm); // N·mm/mm
+  return Math.sqrt((6 * m_Nmm_per_mm) / Math.max(sigma_a_plate, 1)); // mm
+}
+
+// ===== 露出柱脚（剛なベースプレート）の釣合い =====
+// ヤング係数比 n = Es/Ec（RC 断面と同様に 15）
+export const PLATE_MODULAR_RATIO = 15;
+
+export const BASE_PLATE_MODE_LABEL: Record<BasePlateMode, string> = {
+  full: "全面圧縮",
+  partial: "中立軸あり",
+  bolts: "圧縮域なし（Σy² 配分）",
+};
+
+// プレートに直交する軸力（圧縮が正）：自立は柱の軸力、袖・壁付は直接引張 P
+export const plateNormalForce = (
+  signType: SignType,
+  c: Pick<LoadEffect, "N" | "P">
+) => (signType === "freestanding" ? c.N : 0) - c.P;
+
+/**
+ * 平面保持・コンクリートは圧縮のみ（三角形分布）・アンカーは引張のみ
+ * T = n·Ab·σc·(y − yn)/xn として、N・M の釣合いから中立軸 xn を求める（プレート中心まわり）。
+ * 全面圧縮（e ≤ B/6）はアンカー引張 0、圧縮域が生じないときは Σy² 配分（P = −N）に戻す
+ *（Σy² = 0 で M を負担できない配置は momentOK = false）。
+ */
+export function basePlateAnalysis(
+  N: number, // N（圧縮が正）
+  M: number, // N·m（y 正側を引張とする向きが正）
+  points: (AnchorPoint & { id?: string })[],
+  plate: { B: number; D: number; Ab: number } // mm, mm, mm²
+): BasePlateAnalysis {
+  const { B, D } = plate;
+  const Mmm = Math.abs(M) * 1000; // N·mm
+  const sgn = M < 0 ? -1 : 1; // 負の M は y を反転して解く
+  const bolts = (): BasePlateAnalysis => {
+    const { list, momentOK } = computeAnchorTensions(M, points, -N);
+    return { mode: "bolts", xn: 0, sigma_c: 0, list, momentOK };
+  };
+  if (!(B > 0 && D > 0)) return bolts();
+
+  if (N > 0 && Mmm / N <= B / 6) {
+    return {
+      mode: "full",
+      xn: B,
+      sigma_c: (N / (B * D)) * (1 + (6 * (Mmm / N)) / B),
+      list: points.map((p, i) => ({
+        id: p.id ?? `A${i + 1}`,
+        x: p.x,
+        y: p.y,
+        T: 0,
+      })),
+      momentOK: true,
+    };
+  }
+
+  // σc = 1 あたりの合力 F（圧縮が正）とプレート中心まわりのモーメント Mr
+  const nAb = PLATE_MODULAR_RATIO * plate.Ab;
+  const tensionAt = (y: number, xn: number) =>
+    y > xn - B / 2 ? (nAb * (y - (xn - B / 2))) / xn : 0;
+  const unit = (xn: number) => {
+    let F = (D * xn) / 2;
+    let Mr = F * (B / 2 - xn / 3);
+    for (const p of points) {
+      const t = tensionAt(sgn * p.y, xn);
+      F -= t;
+      Mr += t * sgn * p.y;
+    }
+    return { F, Mr };
+  };
+  const residual = (xn: number) => {
+    const u = unit(xn);
+    return Mmm * u.F - N * u.Mr;
+  };
+
+  let lo = B * 1e-6;
+  let hi = B;
+  if (!(residual(lo) < 0 && residual(hi) > 0)) return bolts();
+  for (let i = 0; i < 80; i++) {
+    const mid = (lo + hi) / 2;
+    if (residual(mid) < 0) lo = mid;
+    else hi = mid;
+  }
+  const xn = (lo + hi) / 2;
+  const u = unit(xn);
+  const sigma_c = u.Mr > 0 ? Mmm / u.Mr : N / u.F;
+  return {
+    mode: "partial",
+    xn,
+    sigma_c,
+    list: points.map((p, i) => ({
+      id: p.id ?? `A${i + 1}`,
+      x: p.x,
+      y: p.y,
+      T: tensionAt(sgn * p.y, xn) * sigma_c,
+    })),
+    momentOK: true,
+  };
+}
@@ -0,0 +1,269 @@
+// engine/sectionGeometry.ts
+// 断面名（"H-200×100×5.5×8"・"角形鋼管-200×200×9"・"鋼管-139.8×4.5" など）の寸法から断面性能を算出
+// 公称寸法の長方形の組合せ（フィレット・角部 R は無視）。x = 強軸（成の方向に曲げ）
+import type { SectionMismatch, SectionProps, SectionSpec } from "./types";
+
+// 断面名の接頭辞 → 鋼材種類（family が未知のとき）
+const NAME_PREFIX: [string, string][] = [
+  ["リップみぞ形鋼-", "CLIP"],
+  ["みぞ形鋼-", "C"],
+  ["角形鋼管-", "SHS"],
+  ["鋼管-", "PIPE"],
+  ["丸鋼-", "ROUND"],
+  ["CT-", "CT"],
+  ["H-", "H"],
+  ["I-", "I"],
+  ["L-", "L"],
+];
+
+// 種類ごとの寸法数（H・I・C・CT：H×B×tw×tf、CLIP：H×B×C×t、L：A×B×t、SHS：H×B×t、PIPE：D×t）
+const DIM_COUNT: Record<string, number> = {
+  H: 4,
+  I: 4,
+  C: 4,
+  CT: 4,
+  CLIP: 4,
+  L: 3,
+  SHS: 3,
+  PIPE: 2,
+  ROUND: 1,
+};
+
+export function parseSectionDims(s: Pick<SectionSpec, "family" | "name">) {
+  const family =
+    DIM_COUNT[s.family] !== undefined
+      ? s.family
+      : (NAME_PREFIX.find(([p]) => s.name.indexOf(p) === 0) || [])[1];
+  if (!family) return null;
+  const body = s.name.slice(s.name.indexOf("-") + 1);
+  const dims = (body.match(/\d+(?:\.\d+)?/g) || []).map(Number);
+  if (dims.length !== DIM_COUNT[family] || dims.some((d) => !(d > 0))) {
+    return null;
+  }
+  return { family, dims };
+}
+
+// 長方形 [x0, x1, y0, y1]（mm）、sign = -1 は中空部
+type Rect = { x0: number; x1: number; y0: number; y1: number; sign?: number };
+
+function composeRects(rects: Rect[], W: number, H: number) {
+  let A = 0;
+  let Sx = 0;
+  let Sy = 0;
+  for (const r of rects) {
+    const a = (r.sign ?? 1) * (r.x1 - r.x0) * (r.y1 - r.y0);
+    A += a;
+    Sx += a * ((r.y0 + r.y1) / 2);
+    Sy += a * ((r.x0 + r.x1) / 2);
+  }
+  const cy = Sx / A;
+  const cx = Sy / A;
+  let Ix = 0;
+  let Iy = 0;
+  for (const r of rects) {
+    const b = r.x1 - r.x0;
+    const h = r.y1 - r.y0;
+    const k = r.sign ?? 1;
+    Ix +=
+      k * ((b * h * h * h) / 12 + b * h * Math.pow((r.y0 + r.y1) / 2 - cy, 2));
+    Iy +=
+      k * ((h * b * b * b) / 12 + b * h * Math.pow((r.x0 + r.x1) / 2 - cx, 2));
+  }
+  // 断面係数は縁までの遠い側（小さい方の Z）
+  return {
+    A,
+    Ix,
+    Iy,
+    Zx: Ix / Math.max(cy, H - cy),
+    Zy: Iy / Math.max(cx, W - cx),
+  };
+}
+
+// 開断面のねじり定数 J ≒ Σ b·t³/3
+const openJ = (parts: [number, number][]) =>
+  parts.reduce((s, [b, t]) => s + (b * t * t * t) / 3, 0);
+
+// 横座屈用：圧縮フランジ＋ウェブ1/6 の弱軸まわり断面二次半径 [mm]
+const flangeRadius = (B: number, tf: number, hw: number, tw: number) =>
+  Math.sqrt(
+    ((tf * B * B * B) / 12 + ((hw / 6) * tw * tw * tw) / 12) /
+      (B * tf + (hw * tw) / 6)
+  );
+
+/**
+ * 寸法から断面性能を算出（cm 単位、SectionSpec と同じキー）。
+ * 解釈できない断面名は null。
+ */
+export function sectionGeometry(
+  s: Pick<SectionSpec, "family" | "name">
+): SectionProps | null {
+  const parsed = parseSectionDims(s);
+  if (!parsed) return null;
+  const { family, dims } = parsed;
+  let g: { A: number; Ix: number; Iy: number; Zx: number; Zy: number };
+  let J: number;
+  let Aw: number;
+  let Awy: number;
+  let ltb: { Af: number; iT: number } | undefined;
+
+  if (family === "PIPE" || family === "ROUND") {
+    const D = dims[0];
+    const d = family === "PIPE" ? Math.max(0, D - 2 * dims[1]) : 0;
+    const A = (Math.PI * (D * D - d * d)) / 4;
+    const I = (Math.PI * (Math.pow(D, 4) - Math.pow(d, 4))) / 64;
+    g = { A, Ix: I, Iy: I, Zx: I / (D / 2), Zy: I / (D / 2) };
+    J = 2 * I;
+    Aw = Awy = family === "PIPE" ? A / 2 : (A * 3) / 4;
+  } else if (family === "SHS") {
+    const [H, B, t] = dims;
+    g = composeRects(
+      [
+        { x0: 0, x1: B, y0: 0, y1: H },
+        { x0: t, x1: B - t, y0: t, y1: H - t, sign: -1 },
+      ],
+      B,
+      H
+    );
+    // 閉断面（Bredt）：J = 4Am²·t / 周長
+    const Am = (H - t) * (B - t);
+    J = (4 * Am * Am * t) / (2 * (H - t + B - t));
+    Aw = 2 * t * H;
+    Awy = 2 * t * B;
+  } else if (family === "L") {
+    const [a, b, t] = dims;
+    g = composeRects(
+      [
+        { x0: 0, x1: t, y0: 0, y1: a },
+        { x0: t, x1: b, y0: 0, y1: t },
+      ],
+      b,
+      a
+    );
+    J = openJ([
+      [a, t],
+      [b - t, t],
+    ]);
+    Aw = a * t;
+    Awy = b * t;
+  } else if (family === "CLIP") {
+    const [H, B, C, t] = dims;
+    g = composeRects(
+      [
+        { x0: 0, x1: t, y0: 0, y1: H },
+        { x0: t, x1: B, y0: 0, y1: t },
+        { x0: t, x1: B, y0: H - t, y1: H },
+        { x0: B - t, x1: B, y0: t, y1: C },
+        { x0: B - t, x1: B, y0: H - C, y1: H - t },
+      ],
+      B,
+      H
+    );
+    J = openJ([
+      [H, t],
+      [B - t, t],
+      [B - t, t],
+      [C - t, t],
+      [C - t, t],
+    ]);
+    Aw = (H - 2 * t) * t;
+    Awy = 2 * B * t;
+  } else if (family === "CT") {
+    const [H, B, tw, tf] = dims;
+    g = composeRects(
+      [
+        { x0: 0, x1: B, y0: H - tf, y1: H },
+        { x0: (B - tw) / 2, x1: (B + tw) / 2, y0: 0, y1: H - tf },
+      ],
+      B,
+      H
+    );
+    J = openJ([
+      [B, tf],
+      [H - tf, tw],
+    ]);
+    Aw = (H - tf) * tw;
+    Awy = B * tf;
+    ltb = { Af: B * tf, iT: flangeRadius(B, tf, H - tf, tw) };
+  } else {
+    // H・I（対称）、C（ウェブが左端）
+    const [H, B, tw, tf] = dims;
+    const w0 = family === "C" ? 0 : (B - tw) / 2;
+    g = composeRects(
+      [
+        { x0: 0, x1: B, y0: 0, y1: tf },
+        { x0: 0, x1: B, y0: H - tf, y1: H },
+        { x0: w0, x1: w0 + tw, y0: tf, y1: H - tf },
+      ],
+      B,
+      H
+    );
+    J = openJ([
+      [B, tf],
+      [B, tf],
+      [H - 2 * tf, tw],
+    ]);
+    Aw = (H - 2 * tf) * tw;
+    Awy = 2 * B * tf;
+    ltb = { Af: B * tf, iT: flangeRadius(B, tf, H - 2 * tf, tw) };
+  }
+
+  const A_cm2 = g.A / 100;
+  return {
+    A_cm2,
+    w_kgpm: A_cm2 * 0.785,
+    Ix_cm4: g.Ix / 1e4,
+    Iy_cm4: g.Iy / 1e4,
+    Zx_cm3: g.Zx / 1e3,
+    Zy_cm3: g.Zy / 1e3,
+    ix_cm: Math.sqrt(g.Ix / g.A) / 10,
+    iy_cm: Math.sqrt(g.Iy / g.A) / 10,
+    J_cm4: J / 1e4,
+    Aw_cm2: Aw / 100,
+    Awy_cm2: Awy / 100,
+    ...(ltb ? { Af_cm2: ltb.Af / 100, iT_cm: ltb.iT / 10 } : {}),
+  };
+}
+
+// 未入力の項目だけを寸法からの値で補う（入力済みの値は変更しない）
+export function completeSection<S extends SectionSpec | undefined>(s: S): S {
+  if (!s) return s;
+  const g = sectionGeometry(s);
+  if (!g) return s;
+  const out: SectionSpec = { ...s };
+  let filled = false;
+  for (const k of Object.keys(g) as (keyof SectionProps)[]) {
+    if (!Number.isFinite(out[k])) {
+      out[k] = g[k];
+      filled = true;
+    }
+  }
+  return filled ? (out as S) : s;
+}
+
+// 入力値と寸法からの値の比較（断面DBの点検）。tol は許容する相対差
+// （I形鋼・みぞ形鋼のテーパー・フィレットによる差は 15% 程度まで出る）
+export const SECTION_AUDIT_KEYS: (keyof SectionProps)[] = [
+  "A_cm2",
+  "Ix_cm4",
+  "Iy_cm4",
+  "Zx_cm3",
+  "Zy_cm3",
+  "ix_cm",
+  "iy_cm",
+];
+
+export function auditSection(s: SectionSpec, tol = 0.15): SectionMismatch[] {
+  const g = sectionGeometry(s);
+  if (!g) return [];
+  const out: SectionMismatch[] = [];
+  for (const key of SECTION_AUDIT_KEYS) {
+    const typed = s[key];
+    const computed = g[key];
+    if (typed === undefined || !Number.isFinite(typed) || !computed) continue;
+    const diff = (typed - computed) / computed;
+    if (Math.abs(diff) > tol) {
+      out.push({ name: s.name, key, typed, computed, diff });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,86 @@
+// engine/seismic.ts
+// 地震：自立は C0、建物に取り付く看板（袖・壁付）は付属物の設計用震度
+// 屋上：平成12年建設省告示第1389号（水平震度 1.0·Z）
+// 各階：建築設備耐震設計・施工指針の局部震度（耐震クラスB：上層階 1.0 / 中間階 0.6 / 1階・地階 0.4）
+// 鉛直震度は水平震度の 1/2
+import type { SeismicLevel, SeismicResult, SignInput } from "./types";
+
+export const SEISMIC_KS: Record<SeismicLevel, number> = {
+  C0: 1.0,
+  ROOF: 1.0,
+  UPPER: 1.0,
+  MIDDLE: 0.6,
+  GROUND: 0.4,
+};
+
+export const SEISMIC_LEVEL_LABEL: Record<SeismicLevel, string> = {
+  C0: "地震係数 C0",
+  ROOF: "屋上",
+  UPPER: "上層階",
+  MIDDLE: "中間階",
+  GROUND: "1階・地階",
+};
+
+const SEISMIC_REF: Record<SeismicLevel, string> = {
+  C0: "",
+  ROOF: "平成12年建告第1389号",
+  UPPER: "建築設備耐震設計・施工指針（耐震クラスB）",
+  MIDDLE: "建築設備耐震設計・施工指針（耐震クラスB）",
+  GROUND: "建築設備耐震設計・施工指針（耐震クラスB）",
+};
+
+// 上層階とみなす階数（2〜6階建：最上階、7〜9：上2層、10〜12：上3層、13以上：上4層）
+export function upperFloorCount(floors: number) {
+  return floors <= 6 ? 1 : floors <= 9 ? 2 : floors <= 12 ? 3 : 4;
+}
+
+// 取付位置の区分（mountFloor は 1 = 1階、0 以下 = 地階）
+export function seismicLevel(
+  mountFloor: number,
+  buildingFloors: number,
+  rooftop: boolean
+): Exclude<SeismicLevel, "C0"> {
+  if (rooftop) return "ROOF";
+  const n = Math.max(1, Math.floor(buildingFloors) || 1);
+  const f = Math.floor(mountFloor) || 0;
+  if (n >= 2 && f > n - upperFloorCount(n)) return "UPPER";
+  if (f <= 1) return "GROUND";
+  return "MIDDLE";
+}
+
+/**
+ * 設計用震度。自立看板・C0 モードは KH = C0、
+ * 付属物モード（袖・壁付）は KH = Z·Ks（取付位置で Ks を選ぶ）。
+ */
+export function seismicCoefficients(
+  input: Pick<
+    SignInput,
+    | "signType"
+    | "seismicC0"
+    | "seismicMode"
+    | "seismicZ"
+    | "mountFloor"
+    | "buildingFloors"
+    | "rooftop"
+    | "seismicVertical"
+  >
+): SeismicResult {
+  const appendage =
+    input.signType !== "freestanding" && input.seismicMode === "APPENDAGE";
+  const level: SeismicLevel = appendage
+    ? seismicLevel(input.mountFloor, input.buildingFloors, input.rooftop)
+    : "C0";
+  const Z = appendage ? Math.max(0, Number(input.seismicZ) || 0) : 1;
+  const Ks = SEISMIC_KS[level];
+  const KH = appendage ? Z * Ks : Math.max(0, Number(input.seismicC0) || 0);
+  const KV = input.seismicVertical ? KH / 2 : 0;
+  return {
+    level,
+    label: SEISMIC_LEVEL_LABEL[level],
+    ref: SEISMIC_REF[level],
+    Z,
+    Ks,
+    KH,
+    KV,
+  };
+}
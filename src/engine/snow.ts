@@ -0,0 +1,29 @@
+// engine/snow.ts
+// 積雪荷重（建築基準法施行令第86条：S = 単位荷重 × 垂直積雪量 × 面積）
+import type { SignInput, SnowResult } from "./types";
+
+// 一般地域の単位荷重（積雪 1cm ごとに 20 N/m²）
+export const SNOW_UNIT_W_GENERAL = 20; // N/m²/cm
+
+// 看板上面（幅 × 奥行）に載る積雪荷重（全体）
+export function snowLoad(
+  input: Pick<
+    SignInput,
+    "snowDepth" | "snowUnitW" | "snowMulti" | "width" | "signDepth"
+  >
+): SnowResult {
+  const depth = Math.max(0, Number(input.snowDepth) || 0);
+  const unitW = Math.max(0, Number(input.snowUnitW) || 0);
+  const topArea =
+    Math.max(0, Number(input.width) || 0) *
+    Math.max(0, Number(input.signDepth) || 0);
+  const q = unitW * depth; // N/m²
+  return {
+    depth,
+    unitW,
+    multi: !!input.snowMulti,
+    topArea,
+    q,
+    S_total: q * topArea,
+  };
+}
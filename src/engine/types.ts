@@ -0,0 +1,603 @@
+// engine/types.ts
+// 計算エンジンの入出力型（UI・PDF・AI自動計算・スクリプトで共通）
+
+export type SignType = "freestanding" | "projecting" | "wall";
+export type CfMode = "SHAPE_ONLY" | "CF_INCLUDES_ALL";
+export type FootShape = "RECT" | "L";
+export type WindMode = "MANUAL" | "CODE"; // Kz・Gf 手入力 / 告示1454号から算定
+export type TerrainCategory = "I" | "II" | "III" | "IV"; // 地表面粗度区分
+export type SeismicMode = "C0" | "APPENDAGE"; // C0 手入力 / 建物付属物の震度
+// Cf カタログの項目（MANUAL = shapeCf を手入力）
+export type CfEntryId =
+  | "MANUAL"
+  | "FLAT"
+  | "DOUBLE"
+  | "V_SHAPED"
+  | "PERFORATED"
+  | "CYLINDER"
+  | "BOX"
+  | "LATTICE_FLAT"
+  | "LATTICE_ROUND"
+  | "MEMBER_FLAT";
+
+export type AnchorSpec = {
+  name: string;
+  d: number;
+  Ta: number;
+  Va: number;
+  min_e?: number;
+  min_s?: number;
+  hefRec?: number;
+  Abrg_mm2?: number; // 頭部（ナット）の支圧面積、未設定は d から推定
+};
+export type SectionSpec = {
+  family: string;
+  name: string;
+  A_cm2?: number;
+  Aw_cm2?: number; // せん断に有効な断面積（x軸曲げ：ウェブ）
+  Awy_cm2?: number; // 同（y軸曲げ：フランジ、未設定は Aw_cm2）
+  w_kgpm?: number;
+  Ix_cm4?: number;
+  Iy_cm4?: number;
+  ix_cm?: number;
+  iy_cm?: number;
+  Zx_cm3?: number;
+  Zy_cm3?: number;
+  J_cm4?: number; // ねじり定数
+  h_mm?: number; // 成（未設定は断面名から）
+  Af_cm2?: number; // 圧縮フランジ断面積（横座屈）
+  iT_cm?: number; // 圧縮フランジ＋ウェブ1/6 の弱軸まわり断面二次半径（横座屈）
+};
+
+// 寸法から算出した断面性能（sectionGeometry）
+export type SectionProps = {
+  A_cm2: number;
+  w_kgpm: number;
+  Ix_cm4: number;
+  Iy_cm4: number;
+  Zx_cm3: number;
+  Zy_cm3: number;
+  ix_cm: number;
+  iy_cm: number;
+  J_cm4: number;
+  Aw_cm2: number;
+  Awy_cm2: number;
+  Af_cm2?: number; // H・I・C・CT のみ
+  iT_cm?: number; // H・I・C・CT のみ
+};
+
+// 断面DBの入力値と寸法からの値の食い違い
+export type SectionMismatch = {
+  name: string;
+  key: keyof SectionProps;
+  typed: number;
+  computed: number;
+  diff: number; // (入力 − 算出) / 算出
+};
+
+/**
+ * 計算入力：キー名は buildConfig()（sign_config.json）と同一。
+ * 設定ファイルをそのまま渡せるよう、表示専用の項目は含めない。
+ */
+export type SignInput = {
+  forceUnit: string; // FhInput の単位（"N" | "kgf"）
+  signType: SignType;
+
+  // パネル
+  width: number; // m
+  height: number; // m
+  panelKg: number; // kg
+  cgHeight: number; // m
+  areaFactor: number;
+
+  // 風・地震
+  windV0: number; // m/s
+  windMode: WindMode;
+  terrainCategory: TerrainCategory; // windMode = "CODE" のとき使用
+  windKz: number;
+  windGf: number;
+  windIw: number;
+  windKd: number;
+  windKt: number;
+  cfMode: CfMode;
+  shapeCf: number;
+  cfEntry: CfEntryId; // cfMode = "SHAPE_ONLY" のときカタログから Cf を算定
+  cfPorosity: number; // 開口率（有孔板・ラチス）
+  windStrips: number; // 高さ方向の分割数（2 以上で帯ごとの qz、告示算定時のみ）
+  seismicC0: number;
+  seismicMode: SeismicMode; // 袖・壁付のみ APPENDAGE 可（自立は常に C0）
+  seismicZ: number; // 地震地域係数 Z
+  mountFloor: number; // 取付階（1 = 1階、0 = 地階）
+  buildingFloors: number; // 建物の地上階数
+  rooftop: boolean; // 屋上設置
+  seismicVertical: boolean; // 鉛直震度（水平の 1/2）を考慮
+  FhInput: number; // forceUnit 単位（全体）、0 で自動
+
+  // 積雪（看板上面：幅 × 奥行）
+  snowDepth: number; // cm（垂直積雪量、0 で積雪なし）
+  snowUnitW: number; // N/m²/cm（一般 20、多雪区域は特定行政庁の値）
+  snowMulti: boolean; // 多雪区域（長期 G+0.7S、短期 G+0.35S+W・G+0.35S+K を追加）
+  signDepth: number; // m（看板の奥行＝上面の積雪幅）
+
+  // 部材
+  sections: SectionSpec[];
+  family: string;
+  sectionName: string;
+  bendAxis: string; // "x" | "y"
+  Fy: number; // N/mm²
+  K: number;
+  L: number; // m
+  Lb: number; // m（横座屈長さ、0 = L）
+  Cb: number; // 横座屈のモーメント勾配補正係数 C（1.0〜2.3）
+  windSweep: boolean; // 斜め風（0〜90°）で 2軸曲げを検定（自立のみ）
+  postQty: number;
+  hasInterPostConnection: boolean;
+
+  // 頂部たわみ（自立のみ・使用性）
+  deflRatio: number; // 許容たわみ H/deflRatio
+  deflAllowMm: number; // mm（> 0 のとき H/deflRatio の代わりに用いる）
+  baseRotStiff: number; // kN·m/rad（柱脚の回転剛性、0 = 固定）
+
+  // ブラケット（袖・壁付）：腕長 =（出幅 + 離れ）/ 2
+  bracketProjection: number; // m（袖：壁面〜看板外端、壁付：壁面〜看板前面）
+  panelOffset: number; // m（袖：壁面〜看板内端、壁付：壁面〜看板背面）
+  bracketQty: number; // 基数（上下に分けて配置）
+  bracketSpacing: number; // m（上下ブラケットの間隔）
+
+  // アンカー（自立は ABR 固定リストから anchorName で選択）
+  anchors: AnchorSpec[];
+  anchorName: string;
+  anchorPattern: AnchorPattern;
+  anchorQty: number; // 円周配置の本数
+  anchorRows: number; // 格子・外周：縦（gauge 方向）の行数
+  anchorCols: number; // 格子・外周：横（pitch 方向）の列数
+  anchorGauge: number; // mm
+  anchorPitch: number; // mm
+  anchorPCD: number; // mm（円周配置の直径）
+  anchorCoords: AnchorPoint[]; // 座標指定
+  anchorInteraction: AnchorInteraction; // 引張・せん断の相互作用式
+  edge1: number; // mm
+  edge2: number; // mm
+  spacing: number; // mm
+  anchorEmbed: number; // mm
+
+  // ベースプレート
+  plateFy: number; // N/mm²
+  a_clear: number; // mm
+  plateT: number; // mm
+  plateB: number; // m（曲げ方向＝アンカー y 方向の寸法）
+  plateD: number; // m（直交方向の寸法）
+
+  // 基礎
+  footShape: FootShape;
+  footB: number; // m
+  footD: number; // m
+  footH: number; // m
+  L_t1: number; // m
+  L_t2: number; // m
+  embedDepth: number; // m
+  etaPassive: number;
+  soilUnitW: number; // kN/m³
+  coverT: number; // m
+  concUnitW: number; // kN/m³
+  Fc: number; // N/mm²
+  soilQa: number; // kPa
+  mu: number;
+  gammaBearing: number;
+  reqFS_OT: number;
+  reqFS_SL: number;
+  allowUpliftOK: boolean;
+};
+
+// 告示1454号の中間値（E = Er²·Gf）
+export type Wind1454 = {
+  category: TerrainCategory;
+  H: number; // m（看板頂部高さ）
+  Zb: number; // m
+  ZG: number; // m
+  alpha: number;
+  Er: number;
+  Gf: number;
+  E: number;
+};
+
+// 採用 Cf とその出典
+export type CfPick = {
+  id: CfEntryId;
+  label: string;
+  ref: string; // 出典（図・表）
+  Cf: number;
+  areaRatio: number; // 受圧面積の倍率（開口看板・ラチスは充実率 ε）
+  note: string; // 参照した寸法比など
+};
+
+// 高さ方向の帯（中央高さ z・帯高さ dh・その高さの qz）
+export type WindStrip = { z: number; dh: number; qz: number };
+
+export type WindResult = {
+  panelArea: number; // m²
+  q0: number; // N/m²
+  qz: number; // N/m²
+  cf: CfPick;
+  Fw_total: number; // N
+  code: Wind1454 | null; // windMode = "CODE" のみ
+  strips: WindStrip[] | null; // windStrips ≥ 2 かつ告示算定時のみ
+  zR: number; // m（看板面の風の合力高さ。分割なしは cgHeight）
+  zRWarn: boolean; // zR と入力 cgHeight の差が大きい
+};
+
+// ブラケットの形状（袖・壁付）
+export type BracketResult = {
+  projection: number; // m
+  offset: number; // m
+  arm: number; // m（壁面〜看板重心）
+  qty: number;
+  spacing: number; // m
+  nUpper: number; // 上段の基数（偶力の引張を負担）
+  couple: boolean; // 上下の偶力で鉛直荷重のモーメントを負担できるか
+};
+
+// 袖看板の自重偏心（壁面アンカーの常時荷重）
+export type GravityAnchorCheck = {
+  Tmax: number; // N（1本あたり最大引張）
+  V_anchor: number; // N（1本あたりせん断）
+  eta: number; // etaCombined
+};
+export type GravityResult = {
+  W: number; // N（看板自重・全体）
+  arm: number; // m
+  M: number; // N·m（壁面まわり、全体）
+  couple: boolean;
+  P: number; // N（上段ブラケット1基の偶力引張。偶力なしは 0）
+  V: number; // N（ブラケット1基の鉛直せん断）
+  G: GravityAnchorCheck | null; // 自重のみ（長期）
+  GW: GravityAnchorCheck | null; // 自重＋風（短期）
+};
+
+// 自立柱の頂部たわみ（風・1本あたり）
+export type DeflectionResult = {
+  H: number; // m（看板頂部高さ）
+  I: number; // m⁴
+  estimatedI: boolean; // Ix/Iy 未設定で Z·(成/2) から推定
+  EI: number; // N·m²
+  F: number; // N（看板面の風）
+  lever: number; // m
+  w_post: number; // N/m
+  postLen: number; // m
+  Ktheta: number; // N·m/rad（0 = 柱脚固定）
+  theta: number; // rad（柱脚回転）
+  delta: number; // m
+  allow: number; // m
+  drift: number; // δ/H
+  ok: boolean;
+  shape: { z: number; d: number }[]; // 変形図（z: m、d: mm）
+};
+
+// 設計用震度（C0 = 自立・手入力、それ以外は付属物の取付位置）
+export type SeismicLevel = "C0" | "ROOF" | "UPPER" | "MIDDLE" | "GROUND";
+export type SeismicResult = {
+  level: SeismicLevel;
+  label: string;
+  ref: string; // 出典
+  Z: number;
+  Ks: number;
+  KH: number; // 水平震度
+  KV: number; // 鉛直震度（考慮しない場合 0）
+};
+
+// 積雪荷重（全体）
+export type SnowResult = {
+  depth: number; // cm
+  unitW: number; // N/m²/cm
+  multi: boolean;
+  topArea: number; // m²
+  q: number; // N/m²
+  S_total: number; // N
+};
+
+// ===== 荷重ケース・組合せ（柱1本あたりの柱脚荷重）=====
+export type LoadCaseId = "G" | "W" | "K" | "KV" | "S"; // 固定・風・地震（水平・鉛直）・積雪
+export type LoadTerm = "long" | "short"; // 長期・短期
+
+export type LoadEffect = {
+  V: number; // N（柱脚・ブラケット根元のせん断）
+  M: number; // N·m（柱脚・ブラケット根元のモーメント）
+  N: number; // N（看板側の鉛直力）
+  P: number; // N（壁面アンカーの直接引張：上下偶力・壁付の風。自立は 0）
+};
+export type LoadCase = LoadEffect & { id: LoadCaseId; label: string };
+export type LoadCombo = LoadEffect & {
+  id: string; // "G" | "G+W" | "G+K" | "G+S" | 鉛直震度 "G+K+KV"・"G+K-KV" | 多雪区域 "G+0.7S" など
+  term: LoadTerm;
+  cases: LoadCaseId[];
+  factors: number[]; // cases と同順の荷重係数
+};
+
+export type LoadResult = {
+  Wself_total: number; // N
+  Wself_perCol: number; // N
+  nCol_raw: number;
+  nCol: number; // 計算扱いの柱本数（連結なしは 1、袖・壁付はブラケット基数）
+  Fh_auto_total: number; // N（風・地震の大きい方）
+  Fh_manual_total_N: number; // N
+  Fh_total: number; // N（看板面の設計水平力：入力Fh または自動値）
+  Fh: number; // N（1本あたり・看板面）
+  // 柱の露出部（地表〜看板下端）の風（1本あたり、等分布）
+  postLen: number; // m
+  postWidth: number; // m（見付幅）
+  postCf: CfPick;
+  w_post: number; // N/m
+  Fh_post: number; // N
+  M_post: number; // N·m
+  M_panel: number; // N·m（風ケースの看板面分）
+  V_base: number; // N（柱脚モーメント最大の組合せの柱脚せん断）
+  M: number; // N·m（柱脚モーメント最大の組合せ）
+};
+
+export type ColumnResult = {
+  combo: string; // 支配組合せ
+  M: number; // N·m（支配組合せ）
+  N: number; // N（支配組合せの軸力：自立は圧縮、袖・壁付は引張）
+  section: SectionSpec | undefined;
+  Z_axis: number; // m³（bendAxis まわり）
+  Z_cross: number; // m³（直交軸まわり）
+  r: number; // m（座屈：弱軸 min(ix, iy)）
+  A: number; // m²
+  sigma_c: number; // N/mm²（圧縮）
+  fc: number; // N/mm²（許容圧縮：座屈）
+  sigma_t: number; // N/mm²（引張）
+  sigma: number; // N/mm²（曲げ σb）
+  ft: number; // N/mm²（許容引張）
+  sigma_allow: number; // N/mm²（許容曲げ fb：横座屈を考慮）
+  theta: number; // 支配風向 [°]（0 = bendAxis まわりの曲げのみ）
+  sigma_cross: number; // N/mm²（直交軸まわりの曲げ：露出部の風 Mp·sinθ）
+  fb_cross: number; // N/mm²（直交軸まわりの許容曲げ）
+  eta: number; // σc/fc + σt/ft + σb/fb + σb'/fb'
+  sweep: { theta: number; eta: number }[] | null; // 斜め風：支配組合せの風向ごとの η
+  ltb: LtbResult | null; // 横座屈の検討（H・I・C・CT の強軸曲げのみ）
+  shear: ShearResult;
+  lambda: number;
+  slenderOK: boolean;
+};
+
+export type ShearResult = {
+  combo: string; // 支配組合せ
+  V: number; // N（1本あたり）
+  Aw: number; // m²（0 = 断面DBに無し → η = ∞ で NG）
+  tau: number; // N/mm²
+  fs: number; // N/mm²（長期 F/(1.5√3)、短期 F/√3）
+  eta: number;
+};
+
+export type LtbResult = {
+  lb: number; // m
+  C: number;
+  iT: number; // mm
+  h: number; // mm
+  Af: number; // mm²（0 = 不明、fb2 を用いない）
+  fb1: number; // N/mm²（長期）
+  fb2: number; // N/mm²（長期）
+  fbLong: number; // N/mm²（min(ft, max(fb1, fb2))）
+  estimated: boolean; // iT 未設定で iy を代用
+};
+
+export type AnchorTension = { id: string; x: number; y: number; T: number };
+
+// アンカー配置
+export type AnchorPattern = "GRID" | "PERIMETER" | "CIRCLE" | "CUSTOM";
+export type AnchorPoint = { x: number; y: number }; // mm（柱芯基準、y = 引張側が正）
+// 引張・せん断の相互作用式（t = T/Ta、v = V/Va）
+export type AnchorInteraction = "LINEAR" | "ELLIPSE" | "POW53" | "TRILINEAR";
+export type AnchorLayout = {
+  pattern: AnchorPattern;
+  points: AnchorTension[]; // T は 0（配置のみ）
+  rowPitch: number; // mm（プレート検定のボルト1本あたりの幅）
+};
+
+export type AnchorResult = {
+  combo: string; // 支配組合せ
+  term: LoadTerm;
+  M: number; // N·m（支配組合せ）
+  V: number; // N（支配組合せ・柱脚せん断）
+  P: number; // N（支配組合せ・壁面アンカーの直接引張）
+  N: number; // N（支配組合せ・プレートに直交する軸力、圧縮が正）
+  spec: AnchorSpec;
+  pattern: AnchorPattern;
+  n: number; // 本数（配置から）
+  spacingMin: number; // mm（配置上の最小間隔）
+  T_each: AnchorTension[];
+  Tmax: number; // N
+  V_anchor: number; // N
+  minEdge: number; // mm
+  minSpace: number; // mm
+  edge1OK: boolean;
+  edge2OK: boolean;
+  edgeOK: boolean;
+  spacingOK: boolean;
+  momentOK: boolean; // 全組合せで配置（＋プレート支圧）が M に抵抗できる
+  hef: number; // mm
+  Ta_conc: number; // N（最大引張のアンカー1本に換算：Ncbg·Tmax/ΣT）
+  breakout: ConcreteBreakoutResult; // 支配組合せのコーン破壊
+  Ta_eff: number; // N（組合せの許容値：長期は 1/1.5）
+  Va_eff: number; // N
+  etaSteel: number;
+  etaConc: number;
+  etaLinear: number; // 参考：直線式 t + v
+  interaction: AnchorInteraction;
+  etaCombined: number; // 選択した相互作用式による合成 η（検定に用いる値）
+  modes: AnchorModeCheck[]; // 支配組合せの破壊モード別検定
+  governingMode: AnchorModeId; // η 最大のモード
+  concrete: AnchorConcreteModes;
+  hefReq: number; // mm
+  hefOK: boolean;
+};
+
+// コンクリートのコーン状破壊（投影面積法・引張アンカー群、短期）
+// Ncbg = φ·ψc·ψed·ψec·(A_Nc/A_Nc0)·Nb、Nb = k·√Fc·hef^1.5
+export type ConcreteBreakoutResult = {
+  nT: number; // 群の本数（引張のアンカー、引張なしは全数）
+  hef: number; // mm（計算に用いた hef'）
+  hefReduced: boolean; // 3辺以上の縁が 1.5hef 未満で低減
+  Nb: number; // N
+  A_Nc: number; // mm²（群の投影面積、コンクリート縁で切取り）
+  A_Nc0: number; // mm²（9hef²）
+  edges: { xMin: number; xMax: number; yMin: number; yMax: number }; // mm（群の外側アンカー〜縁、縁なしは Infinity）
+  cMin: number; // mm
+  eNx: number; // mm（引張合力の群図心からの偏心）
+  eNy: number; // mm
+  psiEd: number; // 縁による低減
+  psiEc: number; // 偏心による低減
+  psiC: number; // ひび割れによる低減（定数）
+  phi: number;
+  Ncbg: number; // N
+  T_group: number; // N（群の引張の和）
+};
+
+// アンカーの破壊モード（引張：鋼材・コーン破壊・引抜き・側方破裂、せん断：鋼材・プライアウト・縁端破壊）
+export type AnchorModeId =
+  | "steelT"
+  | "cone"
+  | "pullout"
+  | "blowout"
+  | "steelV"
+  | "pryout"
+  | "edgeV";
+export type AnchorModeCheck = {
+  id: AnchorModeId;
+  kind: "T" | "V";
+  demand: number; // N（1本あたり：最大引張 Tmax またはせん断 V/n）
+  capacity: number; // N（1本あたり・組合せの許容値、対象外は Infinity）
+  eta: number;
+  applicable: boolean;
+};
+// コンクリート側の各耐力（短期）
+export type AnchorConcreteModes = {
+  Abrg: number; // mm²
+  AbrgEstimated: boolean;
+  Np: number; // N（引抜き・1本）
+  blowout: {
+    ca1: number; // mm（引張アンカーの最小縁距離）
+    ca2: number; // mm（直交方向の縁距離）
+    applies: boolean; // hef > 2.5·ca1
+    Nsb: number; // N（1本）
+  };
+  pryout: { kcp: number; Ncpg: number; Vcpg: number }; // N（群）
+  edgeV: {
+    ca1: number; // mm（せん断方向の縁まで、縁なしは Infinity）
+    ca2: number; // mm
+    ha: number; // mm（部材厚、不明は Infinity）
+    le: number; // mm
+    Vb: number; // N
+    A_Vc: number; // mm²
+    A_Vc0: number; // mm²（4.5·ca1²）
+    psiEd: number;
+    psiH: number;
+    Vcbg: number; // N（群）
+  };
+};
+
+// 剛なベースプレートの釣合い（中立軸・コンクリート支圧）
+// full：全面圧縮（アンカー引張なし）、partial：中立軸あり、bolts：圧縮域なし（Σy² 配分）
+export type BasePlateMode = "full" | "partial" | "bolts";
+export type BasePlateAnalysis = {
+  mode: BasePlateMode;
+  xn: number; // mm（圧縮縁〜中立軸。全面圧縮は B、bolts は 0）
+  sigma_c: number; // N/mm²（圧縮縁の支圧応力度）
+  list: AnchorTension[];
+  momentOK: boolean; // false = Σy² = 0 のアンカー配置のみで M を負担（抵抗できない）
+};
+
+export type PlateBearingResult = {
+  combo: string; // 支配組合せ
+  term: LoadTerm;
+  N: number; // N（プレートに直交する軸力、圧縮が正）
+  M: number; // N·m
+  B: number; // mm
+  D: number; // mm
+  mode: BasePlateMode;
+  xn: number; // mm
+  sigma_c: number; // N/mm²
+  fc: number; // N/mm²（長期 0.25Fc、短期 ×1.5）
+  eta: number;
+  ok: boolean;
+};
+
+export type PlateResult = {
+  combo: string; // 支配組合せ
+  a_mm: number;
+  s_mm: number;
+  T_row: number; // N
+  t_req: number; // mm
+  plateOK: boolean;
+  bearing: PlateBearingResult;
+};
+
+export type FoundationResult = {
+  combo: string; // この結果の荷重組合せ（まとめた結果では支持力の支配組合せ）
+  ok: boolean;
+  N: number; // N
+  e: number; // m
+  sigma_max: number; // N/m²
+  sigma_min: number; // N/m²
+  noUplift: boolean;
+  qa_allow_soil: number; // kPa
+  qa_allow_conc: number; // kPa
+  qa_allow_final: number; // kPa
+  bearingOK: boolean;
+  leverArm_OT: number; // m
+  FS_OT: number;
+  OT_OK: boolean;
+  FS_SL: number;
+  SL_OK: boolean;
+  slideNote: string;
+  volume: number; // m³
+  areaBD: number; // m²
+  B_eff: number;
+  B: number;
+  D: number;
+  H: number;
+  Pp: number; // N
+  Pp_raw: number; // N
+  M_passive: number; // N·m
+  z: number; // m
+  R_slide: number; // N
+};
+
+// 基礎の各検定の支配組合せ
+export type FoundationGoverning = {
+  bearing: string;
+  OT: string;
+  SL: string;
+};
+
+export type SignResult = {
+  wind: WindResult;
+  seismic: SeismicResult;
+  snow: SnowResult;
+  bracket: BracketResult | null; // 袖・壁付のみ
+  gravity: GravityResult | null; // 袖のみ
+  deflection: DeflectionResult | null; // 自立のみ
+  loads: LoadResult;
+  cases: LoadCase[];
+  combos: LoadCombo[];
+  column: ColumnResult;
+  anchor: AnchorResult;
+  plate: PlateResult;
+  foundation: FoundationResult | null; // 自立のみ（検定ごとの支配組合せ）
+  foundationGoverning: FoundationGoverning | null;
+  foundationOK: boolean;
+  sectionUnresolved: boolean; // 断面性能が不明（仮定値で計算、総合 NG）
+  overallOK: boolean;
+};
+
+// AI自動計算（autoSelect）
+export type AutoSelectOptions = {
+  foundationOptMode: string; // "BD"（B→D→H の順に小さく）| "VOL"（体積最小）
+  embedDepthAuto: boolean; // 根入れ深さ z を H-0.1 に追従
+};
+
+export type AutoSelectResult = {
+  input: SignInput; // 採用案（元の入力に選定値を上書き）
+  result: SignResult; // 採用案の calculateSign（総合判定は overallOK）
+  foundation: { found: boolean; ratio: number } | null; // 自立のみ（OK 解が無ければ最も近い案）
+};
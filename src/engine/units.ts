@@ -0,0 +1,4 @@
+// engine/units.ts
+export const G = 9.8; // m/s^2
+
+export const toKgf = (N: number) => N / G;
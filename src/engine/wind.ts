@@ -0,0 +1,125 @@
+// engine/wind.ts
+import type {
+  CfMode,
+  TerrainCategory,
+  Wind1454,
+  WindMode,
+  WindStrip,
+} from "./types";
+
+// ===== 風：基準速度圧（動圧）=====
+// q0 = 0.613 V^2 [N/m2] を「基準速度圧」として扱い、以降の係数で設計速度圧 qz を作る。
+export const wind_q0 = (V0: number) => 0.613 * V0 * V0; // N/m²
+
+// ===== 風：告示1454号（地表面粗度区分）=====
+// Zb・ZG [m]、α、Gf（H≦10m / H≧40m、間は直線補間）
+export const TERRAIN_1454: Record<
+  TerrainCategory,
+  { Zb: number; ZG: number; alpha: number; Gf10: number; Gf40: number }
+> = {
+  I: { Zb: 5, ZG: 250, alpha: 0.1, Gf10: 2.0, Gf40: 1.8 },
+  II: { Zb: 5, ZG: 350, alpha: 0.15, Gf10: 2.2, Gf40: 2.0 },
+  III: { Zb: 5, ZG: 450, alpha: 0.2, Gf10: 2.5, Gf40: 2.1 },
+  IV: { Zb: 10, ZG: 550, alpha: 0.27, Gf10: 3.1, Gf40: 2.3 },
+};
+
+// 看板頂部高さ（告示の H として用いる）
+export const signTopHeight = (cgHeight: number, height: number) =>
+  Math.max(0, cgHeight + height / 2);
+
+// E = Er²·Gf
+export function windFactor1454(category: TerrainCategory, H: number): Wind1454 {
+  const t = TERRAIN_1454[category] || TERRAIN_1454.III;
+  const Er = 1.7 * Math.pow(Math.max(H, t.Zb) / t.ZG, t.alpha);
+  const Gf =
+    H <= 10
+      ? t.Gf10
+      : H >= 40
+      ? t.Gf40
+      : t.Gf10 + ((t.Gf40 - t.Gf10) * (H - 10)) / 30;
+  return {
+    category,
+    H,
+    Zb: t.Zb,
+    ZG: t.ZG,
+    alpha: t.alpha,
+    Er,
+    Gf,
+    E: Er * Er * Gf,
+  };
+}
+
+export type WindParams = {
+  cfMode: CfMode;
+  windMode: WindMode;
+  terrainCategory: TerrainCategory;
+  cgHeight: number;
+  height: number;
+  windKz: number;
+  windGf: number;
+  windIw: number;
+  windKd: number;
+  windKt: number;
+};
+
+// ===== 風：設計速度圧（中間値つき）=====
+// MANUAL: qz = q0·Kz·Gf·Iw·Kd·Kt
+// CODE  : qz = 0.6·E·V²·Iw·Kd·Kt（令87条。E が Kz·Gf を置き換える）
+// ※ CF_INCLUDES_ALL では Cf に高さ・ガストを含む前提のため、E・Kz〜Kt はすべて 1.0 扱い
+export function windDesign(V: number, params: WindParams) {
+  const q0 = wind_q0(V);
+  const all = params.cfMode === "CF_INCLUDES_ALL";
+
+  const Iw_eff = all ? 1.0 : params.windIw;
+  const Kd_eff = all ? 1.0 : params.windKd;
+  const Kt_eff = all ? 1.0 : params.windKt;
+
+  if (params.windMode === "CODE" && !all) {
+    const code = windFactor1454(
+      params.terrainCategory,
+      signTopHeight(params.cgHeight, params.height)
+    );
+    const qz = 0.6 * code.E * V * V * Iw_eff * Kd_eff * Kt_eff;
+    return { q0, qz, code };
+  }
+
+  const Kz_eff = all ? 1.0 : params.windKz;
+  const Gf_eff = all ? 1.0 : params.windGf;
+  const qz = q0 * Kz_eff * Gf_eff * Iw_eff * Kd_eff * Kt_eff; // N/m²
+  return { q0, qz, code: null };
+}
+
+// ===== 風：高さ方向の帯分割（告示算定時のみ）=====
+// 看板面を n 帯に分け、各帯の中央高さ z で Er(z) を評価する（Gf は頂部高さ H の値）
+// 帯の風力は呼び出し側で qz·Cf·W·dh として積分する
+export function windStripPressures(
+  V: number,
+  params: WindParams,
+  n: number
+): WindStrip[] | null {
+  const count = Math.floor(n);
+  if (
+    !(count >= 2) ||
+    params.windMode !== "CODE" ||
+    params.cfMode === "CF_INCLUDES_ALL"
+  ) {
+    return null;
+  }
+  const H = signTopHeight(params.cgHeight, params.height);
+  const { Gf } = windFactor1454(params.terrainCategory, H);
+  const k = 0.6 * V * V * params.windIw * params.windKd * params.windKt;
+  const bottom = params.cgHeight - params.height / 2;
+  const dh = params.height / count;
+
+  const strips: WindStrip[] = [];
+  for (let i = 0; i < count; i++) {
+    const z = bottom + (i + 0.5) * dh;
+    const { Er } = windFactor1454(params.terrainCategory, Math.max(0, z));
+    strips.push({ z, dh, qz: k * Er * Er * Gf });
+  }
+  return strips;
+}
+
+// 風速 V を与えたときの設計速度圧 qz を返す
+export const windPressure = (V: number, params: WindParams) =>
+  windDesign(V, params).qz; // N/m²
@@ -0,0 +1,38 @@
+// engine/windV0Table.ts
+// 基準風速 V0 の主要都市表（オフライン内蔵・告示の抜粋）
+// 出典：平成12年建設省告示第1454号 第2。
+// ※ 全市町村表ではなく、主要都市の抜粋（全市町村表は未収録）。告示の区域は平成12年時点の
+//   市町村で、合併後の市は旧市町村ごとに V0 が異なることがあるため、未収録の地域・合併市は
+//   告示本文で V0 を確認し手入力すること。
+//   表値の誤りは入力ミスより見つけにくいため、値を確定できない行は載せない（手入力に回す）。
+//   行を追加するときは告示の区域表記（都道府県・市町村）のまま記載する。
+
+export type WindV0Entry = {
+  pref: string; // 都道府県
+  city: string; // 市町村（全域の場合は "全域"）
+  V0: number; // m/s
+};
+
+export const WIND_V0_TABLE: WindV0Entry[] = [
+  { pref: "北海道", city: "札幌市", V0: 32 },
+  { pref: "東京都", city: "特別区", V0: 34 },
+  { pref: "大阪府", city: "大阪市", V0: 34 },
+  { pref: "広島県", city: "広島市", V0: 32 },
+  { pref: "福岡県", city: "福岡市", V0: 34 },
+  { pref: "沖縄県", city: "全域", V0: 46 },
+];
+
+// 表示・保存用のキー（"都道府県 市町村"）
+export const windV0Label = (e: WindV0Entry) => `${e.pref} ${e.city}`;
+
+export const findWindV0 = (label: string) =>
+  WIND_V0_TABLE.find((e) => windV0Label(e) === label);
+
+// 部分一致検索（空白区切りの語をすべて含む行）
+export function searchWindV0(query: string) {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  return WIND_V0_TABLE.filter((e) => {
+    const label = windV0Label(e);
+    return words.every((w) => label.indexOf(w) >= 0);
+  });
+}